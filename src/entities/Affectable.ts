@@ -0,0 +1,34 @@
+import { StatusEffectManager } from '../systems/StatusEffectManager';
+
+/**
+ * Where a hit came from - knockback pushes away from this point
+ * Status effect ticks have no source
+ */
+export interface DamageSource {
+  x: number;
+  y: number;
+}
+
+/**
+ * Anything that can take damage (and optionally "Gatsby Sauce" saturation)
+ */
+export interface Damageable {
+  x: number;
+  y: number;
+  active: boolean;
+  takeDamage(amount: number, saturation?: number, source?: DamageSource): void;
+}
+
+/**
+ * Anything status effects can be applied to - Player and Enemy
+ * Effects don't touch the target's stats directly: the target reads speed,
+ * damage and tint modifiers back from its own StatusEffectManager
+ */
+export interface Affectable extends Damageable {
+  getStatusEffects(): StatusEffectManager;
+
+  /**
+   * Re-apply tint from active effects (called when effects change)
+   */
+  refreshTint(): void;
+}
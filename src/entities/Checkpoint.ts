@@ -0,0 +1,60 @@
+import Phaser from 'phaser';
+
+/**
+ * Checkpoint flag - touching it makes it the player's respawn point
+ * Placed in Tiled as a 'checkpoint' point object at floor level
+ */
+export class Checkpoint extends Phaser.GameObjects.Zone {
+  private readonly INACTIVE_COLOR = 0x888888;
+  private readonly ACTIVE_COLOR = 0x00ff00;
+
+  private flag: Phaser.GameObjects.Triangle;
+  private pole: Phaser.GameObjects.Rectangle;
+  private activated: boolean = false;
+
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    // Zone covers the flag from the floor up
+    super(scene, x, y - 16, 16, 32);
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this, true); // Static body
+
+    // Placeholder flag until checkpoint art exists
+    this.pole = scene.add.rectangle(x, y - 12, 2, 24, 0xdddddd);
+    this.flag = scene.add.triangle(x + 1, y - 24, 0, 0, 10, 4, 0, 8, this.INACTIVE_COLOR);
+    this.flag.setOrigin(0, 0);
+
+    this.once(Phaser.GameObjects.Events.DESTROY, () => {
+      this.pole.destroy();
+      this.flag.destroy();
+    });
+  }
+
+  /**
+   * Activate on touch - returns true the first time only
+   */
+  public activate(): boolean {
+    if (this.activated) return false;
+
+    this.activated = true;
+    this.flag.setFillStyle(this.ACTIVE_COLOR);
+    this.scene.tweens.add({
+      targets: this.flag,
+      scaleX: 1.5,
+      duration: 120,
+      yoyo: true,
+    });
+    return true;
+  }
+
+  /**
+   * Where the player respawns (a little above the floor, then drops)
+   */
+  public getRespawnPoint(): { x: number; y: number } {
+    return { x: this.x, y: this.y - 24 };
+  }
+
+  public isActivated(): boolean {
+    return this.activated;
+  }
+}
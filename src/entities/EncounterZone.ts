@@ -0,0 +1,53 @@
+import Phaser from 'phaser';
+import { Wave } from '../systems/encounters/WaveScript';
+
+export interface EncounterZoneConfig {
+  name: string;
+  waves: Wave[];
+  arena?: boolean; // Lock the camera and world bounds to the zone until cleared
+}
+
+/**
+ * Encounter trigger - entering it starts its scripted enemy waves (run by EncounterManager)
+ * Placed in Tiled as an 'encounter' rectangle with a `waves` JSON property and optional `arena`
+ */
+export class EncounterZone extends Phaser.GameObjects.Zone {
+  private config: EncounterZoneConfig;
+  private triggered: boolean = false;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, width: number, height: number, config: EncounterZoneConfig) {
+    super(scene, x, y, width, height);
+    this.config = config;
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this, true); // Static body
+  }
+
+  /**
+   * Trigger on entry - returns true the first time only (until re-armed)
+   */
+  public trigger(): boolean {
+    if (this.triggered) return false;
+    this.triggered = true;
+    return true;
+  }
+
+  /**
+   * Allow the encounter to run again (e.g. the player died mid-arena)
+   */
+  public rearm(): void {
+    this.triggered = false;
+  }
+
+  public getEncounterName(): string {
+    return this.config.name;
+  }
+
+  public getWaves(): Wave[] {
+    return this.config.waves;
+  }
+
+  public isArena(): boolean {
+    return this.config.arena ?? false;
+  }
+}
@@ -1,35 +1,141 @@
 import Phaser from 'phaser';
+import { Affectable } from './Affectable';
+import { StatusEffectManager } from '../systems/StatusEffectManager';
+import { StatusEffectType } from '../systems/status/StatusEffect';
+import { SoggyEffect } from '../systems/status/SoggyEffect';
+import { BurningEffect } from '../systems/status/BurningEffect';
+import { StatusEffectVfx } from '../systems/status/StatusEffectVfx';
+import { StateMachine } from '../systems/ai/StateMachine';
+import { EnemyStateId, EnemyAIContext, createEnemyState } from '../systems/ai/EnemyStates';
+import { Perception } from '../systems/ai/Perception';
+import { Navigator } from '../systems/ai/Navigator';
+import { NavLinkType, NavProfile, NavStep } from '../systems/ai/NavGraph';
+import { EnemyProjectile } from './enemies/EnemyProjectile';
+
+/**
+ * Telegraphed attack: windup (telegraph) -> active (hitbox live) -> recovery
+ */
+export interface EnemyAttackConfig {
+  damage?: number;         // Default: the enemy's damage
+  range: number;           // Starts attacking when the player is this close (horizontal px)
+  windupFrames: number;
+  activeFrames: number;
+  recoveryFrames: number;
+  cooldownFrames?: number; // Between attacks, after recovery (default 60)
+}
+
+/**
+ * AI declaration - which states this enemy uses and how it perceives
+ */
+export interface EnemyAIConfig {
+  states?: string[];         // EnemyStateId values (default: idle, chase, attack); 'stunned' is always added
+  initial?: string;          // Starting/fallback state (default: patrol, else idle)
+  sightRange?: number;       // Pixels (default 160)
+  patrolDistance?: number;   // Pixels either side of the spawn point (default 64)
+  idleFrames?: number;       // Idle pause before patrolling (default 90)
+  loseSightFrames?: number;  // Chase gives up after this long without sight (default 120)
+}
 
 export interface EnemyConfig {
   health: number;
   speed: number;
-  damage: number;
+  damage: number;          // Contact damage (and attack damage unless the attack sets its own)
   maxSaturation: number; // Max "Gatsby Sauce" saturation before Soggy
+  soggyDuration?: number; // Frames Soggy lasts (default 10 seconds)
+  soggyReward?: number;  // Gatsby Sauce currency for making it Soggy
+  defeatReward?: number; // Gatsby Sauce currency for defeating it
+  soggyDamageMultiplier?: number; // Damage dealt while Soggy (default 0.5 - sauce-drenched hits are weaker)
+  attack?: EnemyAttackConfig;
+  ai?: EnemyAIConfig;
+  width?: number;            // Placeholder/body size in pixels (default 16x16)
+  height?: number;
+  tint?: number;             // Placeholder colour (default red)
+  flying?: boolean;          // Ignores gravity
+  jumpVelocity?: number;     // Jumps between platforms while chasing (negative = up; needs a Navigator)
+  drops?: string;            // DropTables id rolled when defeated (default 'common', '' for none)
+}
+
+export enum EnemyAttackPhase {
+  NONE = 'none',
+  WINDUP = 'windup',
+  ACTIVE = 'active',
+  RECOVERY = 'recovery',
+}
+
+/**
+ * Events emitted by enemies (all pass the enemy)
+ */
+export enum EnemyEvent {
+  SOGGY = 'enemy-soggy',
+  DEFEATED = 'enemy-defeated', // Emitted just before the enemy is destroyed
 }
 
 /**
  * Base enemy class for testing weapon saturation mechanic
  */
-export class Enemy extends Phaser.Physics.Arcade.Sprite {
+export class Enemy extends Phaser.Physics.Arcade.Sprite implements Affectable {
+  private readonly DEFAULT_SOGGY_REWARD = 5;
+  private readonly DEFAULT_DEFEAT_REWARD = 10;
+  private readonly DEFAULT_SOGGY_DURATION = 600; // 10 seconds at 60fps
+  private readonly SOGGY_SPEED_MULTIPLIER = 0.5; // Move slower when soggy
+  private readonly DEFAULT_TINT = 0xff0000;
+  private readonly DEFAULT_DROPS = 'common';
+  private readonly DEFAULT_SOGGY_DAMAGE_MULTIPLIER = 0.5;
+  private readonly DEFAULT_ATTACK_COOLDOWN = 60;
+  private readonly ATTACK_REACH_Y = 24; // Player must be roughly level to be attacked
+  private readonly DEFAULT_STATES: string[] = [EnemyStateId.IDLE, EnemyStateId.CHASE, EnemyStateId.ATTACK];
+  private readonly DEFAULT_SIGHT_RANGE = 160;
+  private readonly DEFAULT_PATROL_DISTANCE = 64;
+  private readonly DEFAULT_IDLE_FRAMES = 90;
+  private readonly DEFAULT_LOSE_SIGHT_FRAMES = 120;
+  private readonly REPATH_FRAMES = 30;
+  private readonly ARRIVE_DISTANCE = 10;
+  private readonly TAKEOFF_TOLERANCE = 3;
+  private readonly PULL_FRAMES = 20; // The AI leaves a yank's velocity alone this long
+
   private health: number;
   private maxHealth: number;
   private saturation: number = 0; // Current saturation level
-  private config: EnemyConfig;
-  private isSoggy: boolean = false;
+  protected config: EnemyConfig;
+  private statusEffects: StatusEffectManager;
+
+  // Attack state
+  private attackPhase: EnemyAttackPhase = EnemyAttackPhase.NONE;
+  private attackPhaseFrames: number = 0;
+  private attackCooldown: number = 0;
+  private attackLanded: boolean = false;
+  private pullFrames: number = 0;
+  private telegraph: Phaser.GameObjects.Text | null = null;
+
+  // AI
+  private brain: StateMachine<Enemy, EnemyAIContext>;
+  private worldLayer: Phaser.Tilemaps.TilemapLayer | null = null;
+  private homeX: number;
+
+  // Pathfinding
+  private navigator: Navigator | null = null;
+  private path: NavStep[] | null = null;
+  private repathFrames: number = 0;
 
   constructor(scene: Phaser.Scene, x: number, y: number, config: EnemyConfig) {
-    // Create a simple placeholder texture
-    const graphics = scene.add.graphics();
-    graphics.fillStyle(0xff0000, 1);
-    graphics.fillRect(0, 0, 16, 16);
-    graphics.generateTexture('enemy-placeholder', 16, 16);
-    graphics.destroy();
+    // Create a simple placeholder texture per size (white, coloured by tint)
+    const width = config.width ?? 16;
+    const height = config.height ?? 16;
+    const textureKey = `enemy-placeholder-${width}x${height}`;
+    if (!scene.textures.exists(textureKey)) {
+      const graphics = scene.add.graphics();
+      graphics.fillStyle(0xffffff, 1);
+      graphics.fillRect(0, 0, width, height);
+      graphics.generateTexture(textureKey, width, height);
+      graphics.destroy();
+    }
 
-    super(scene, x, y, 'enemy-placeholder');
+    super(scene, x, y, textureKey);
 
     this.config = config;
     this.health = config.health;
     this.maxHealth = config.health;
+    this.homeX = x;
 
     scene.add.existing(this);
     scene.physics.add.existing(this);
@@ -38,71 +144,456 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
     if (this.body) {
       const body = this.body as Phaser.Physics.Arcade.Body;
       body.setCollideWorldBounds(true);
-      body.setSize(14, 16);
+      body.setSize(this.width - 2, this.height);
       body.setOffset(1, 0);
+      body.setAllowGravity(!config.flying);
     }
 
-    // Set tint to red for enemies
-    this.setTint(0xff0000);
+    // Each enemy tracks its own effects (Soggy, Burning, ...)
+    this.statusEffects = new StatusEffectManager(scene);
+    this.statusEffects.setTarget(this);
+    new StatusEffectVfx(scene, this, this.statusEffects);
+    this.once(Phaser.GameObjects.Events.DESTROY, () => {
+      this.statusEffects.destroy();
+      this.clearTelegraph();
+    });
+
+    // Set tint to red for enemies (archetypes pick their own colour)
+    this.setTint(this.config.tint ?? this.DEFAULT_TINT);
+
+    // AI starts in its default state on the first update
+    this.brain = this.createBrain();
   }
 
   /**
    * Apply damage and saturation
    */
-  public takeDamage(damage: number, saturation: number): void {
-    this.health -= damage;
-    this.saturation += saturation;
+  public takeDamage(damage: number, saturation: number = 0): void {
+    if (!this.active) return;
+
+    const finalDamage = damage * this.statusEffects.getDamageTakenMultiplier();
+    this.health -= finalDamage;
+
+    // Saturation only builds while not already Soggy
+    if (!this.getIsSoggy()) {
+      this.saturation += saturation;
+    }
 
     console.log(`Enemy: ${this.health}/${this.maxHealth} HP, ${this.saturation}/${this.config.maxSaturation} saturation`);
 
     // Flash white briefly
     this.setTint(0xffffff);
     this.scene.time.delayedCall(100, () => {
-      this.setTint(this.isSoggy ? 0x8888ff : 0xff0000);
+      if (this.active) this.refreshTint();
     });
 
+    // Heavy hits can shatter Frozen (which deals its own bonus damage)
+    this.statusEffects.notifyHit(finalDamage);
+    if (!this.active) return;
+
     // Check if saturated
-    if (!this.isSoggy && this.saturation >= this.config.maxSaturation) {
+    if (!this.getIsSoggy() && this.saturation >= this.config.maxSaturation) {
       this.applySoggy();
+      // Going soggy while burning fries the enemy, which may finish it off
+      if (!this.active) return;
     }
 
     // Check if dead
     if (this.health <= 0) {
-      this.destroy();
+      this.defeat();
     }
   }
 
   /**
-   * Apply Soggy status to enemy (slower movement, different behavior)
+   * Out of health - emit DEFEATED and remove the enemy
+   * Bosses delay this for their outro
+   */
+  protected defeat(): void {
+    this.emit(EnemyEvent.DEFEATED, this);
+    this.destroy();
+  }
+
+  /**
+   * Beaten, even if still on screen (bosses count from the start of their outro)
+   */
+  public isDefeated(): boolean {
+    return !this.active;
+  }
+
+  /**
+   * Apply Soggy status to enemy (slower movement until it dries off)
    */
   private applySoggy(): void {
-    this.isSoggy = true;
-    this.setTint(0x8888ff); // Blue tint
-    this.config.speed *= 0.5; // Move slower when soggy
+    const duration = this.config.soggyDuration ?? this.DEFAULT_SOGGY_DURATION;
+    this.statusEffects.applyEffect(new SoggyEffect(duration, this.SOGGY_SPEED_MULTIPLIER, 1));
     this.saturation = 0; // Reset saturation
     console.log('Enemy is now Soggy!');
+    this.emit(EnemyEvent.SOGGY, this);
+  }
+
+  /**
+   * Set the enemy on fire - refreshes duration, keeps the strongest burn
+   */
+  public applyBurning(durationFrames: number, damagePerTick: number): void {
+    this.statusEffects.applyEffect(new BurningEffect(durationFrames, damagePerTick));
+  }
+
+  /**
+   * Check if enemy is burning
+   */
+  public getIsBurning(): boolean {
+    return this.statusEffects.hasEffect(StatusEffectType.BURNING);
+  }
+
+  /**
+   * Get the enemy's status effects
+   */
+  public getStatusEffects(): StatusEffectManager {
+    return this.statusEffects;
   }
 
   /**
-   * Simple AI: Move toward player
+   * Tint for the current status (highest priority effect, else red)
    */
-  public update(playerX: number): void {
+  public refreshTint(): void {
+    this.setTint(this.statusEffects.getTint() ?? this.config.tint ?? this.DEFAULT_TINT);
+  }
+
+  /**
+   * Current movement speed (base speed modified by status effects)
+   */
+  public getSpeed(): number {
+    return this.config.speed * this.statusEffects.getSpeedMultiplier();
+  }
+
+  /**
+   * Yank the enemy toward a point (e.g. Calamari Whip pull)
+   */
+  public pullToward(x: number, y: number, speed: number): void {
     if (!this.body) return;
 
     const body = this.body as Phaser.Physics.Arcade.Body;
+    const angle = Phaser.Math.Angle.Between(this.x, this.y, x, y);
+    body.setVelocity(Math.cos(angle) * speed, Math.sin(angle) * speed);
+    this.pullFrames = this.PULL_FRAMES;
+  }
 
-    // Move toward player
-    if (playerX < this.x - 10) {
-      body.setVelocityX(-this.config.speed);
-      this.setFlipX(true);
-    } else if (playerX > this.x + 10) {
-      body.setVelocityX(this.config.speed);
-      this.setFlipX(false);
-    } else {
+  /**
+   * Still flying from a pull - movement doesn't override its velocity
+   */
+  public isBeingPulled(): boolean {
+    return this.pullFrames > 0;
+  }
+
+  /**
+   * Tick status effects and run the AI state machine (call every frame)
+   * Stunned/Frozen and flee-when-Soggy take over from whatever state is running
+   */
+  public update(target: { x: number; y: number }): void {
+    if (!this.body) return;
+
+    // Effects tick here rather than in preUpdate, so they pause with gameplay
+    this.statusEffects.update();
+    if (!this.active) return; // Burned out
+
+    if (this.attackCooldown > 0) {
+      this.attackCooldown--;
+    }
+    if (this.pullFrames > 0) {
+      this.pullFrames--;
+    }
+
+    const context: EnemyAIContext = { target };
+    const forced = this.getForcedState();
+    if (forced && this.brain.getCurrentState() !== forced) {
+      this.brain.transition(forced, context);
+    } else if (!this.brain.getCurrentState()) {
+      this.brain.transition(this.getDefaultState(), context);
+    }
+    this.brain.update(context);
+  }
+
+  /**
+   * State that overrides the AI right now (null to let the current state decide)
+   */
+  private getForcedState(): string | null {
+    if (!this.statusEffects.canAct()) return EnemyStateId.STUNNED;
+    if (this.getIsSoggy() && this.brain.hasState(EnemyStateId.FLEE)) return EnemyStateId.FLEE;
+    return null;
+  }
+
+  /**
+   * Build the state machine from the declared states
+   */
+  private createBrain(): StateMachine<Enemy, EnemyAIContext> {
+    const brain = new StateMachine<Enemy, EnemyAIContext>(this);
+    const declared = this.config.ai?.states ?? this.DEFAULT_STATES;
+
+    declared.forEach(id => {
+      if (id === EnemyStateId.ATTACK && !this.hasAttacks()) {
+        console.warn(`Enemy: '${id}' state needs an attack config - skipped`);
+        return;
+      }
+      const state = createEnemyState(id);
+      if (!state) {
+        console.warn(`Enemy: Unknown AI state '${id}' - skipped`);
+        return;
+      }
+      brain.addState(state);
+    });
+
+    // Status effects can always stun
+    if (!brain.hasState(EnemyStateId.STUNNED)) {
+      brain.addState(createEnemyState(EnemyStateId.STUNNED)!);
+    }
+    return brain;
+  }
+
+  /**
+   * Check if the enemy declared a state
+   */
+  public hasState(id: string): boolean {
+    return this.brain.hasState(id);
+  }
+
+  /**
+   * State the AI falls back to (after chasing, fleeing, being stunned)
+   */
+  public getDefaultState(): string {
+    const initial = this.config.ai?.initial;
+    if (initial && this.brain.hasState(initial)) return initial;
+    if (this.brain.hasState(EnemyStateId.PATROL)) return EnemyStateId.PATROL;
+    if (this.brain.hasState(EnemyStateId.IDLE)) return EnemyStateId.IDLE;
+    return EnemyStateId.STUNNED;
+  }
+
+  /**
+   * Current AI state id
+   */
+  public getAIState(): string | null {
+    return this.brain.getCurrentState();
+  }
+
+  /**
+   * AI tuning with defaults filled in
+   */
+  public getAIConfig(): Required<Omit<EnemyAIConfig, 'states' | 'initial'>> {
+    const ai = this.config.ai;
+    return {
+      sightRange: ai?.sightRange ?? this.DEFAULT_SIGHT_RANGE,
+      patrolDistance: ai?.patrolDistance ?? this.DEFAULT_PATROL_DISTANCE,
+      idleFrames: ai?.idleFrames ?? this.DEFAULT_IDLE_FRAMES,
+      loseSightFrames: ai?.loseSightFrames ?? this.DEFAULT_LOSE_SIGHT_FRAMES,
+    };
+  }
+
+  /**
+   * Set the collision layer used for sight lines and ledge checks
+   */
+  public setWorldLayer(layer: Phaser.Tilemaps.TilemapLayer | null): void {
+    this.worldLayer = layer;
+  }
+
+  /**
+   * Collision layer set by the level (null before it's added)
+   */
+  protected getWorldLayer(): Phaser.Tilemaps.TilemapLayer | null {
+    return this.worldLayer;
+  }
+
+  /**
+   * Player within sight range with a clear line of sight
+   */
+  public canSeeTarget(target: { x: number; y: number }): boolean {
+    return Perception.canSee(this, target, this.getAIConfig().sightRange, this.worldLayer);
+  }
+
+  /**
+   * Walk one frame in a direction (-1/1) - returns false at a ledge or wall
+   * (the enemy stops instead of walking off, unless stopAtLedges is false)
+   */
+  public walk(direction: number, stopAtLedges: boolean = true): boolean {
+    if (!this.body) return false;
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    this.setFlipX(direction < 0);
+    if (this.isBeingPulled()) return true;
+
+    // Only check footing on the ground - mid-air there's nothing to stop for
+    const blocked = Perception.isWallAhead(body, direction) ||
+      (stopAtLedges && body.blocked.down && !Perception.isGroundAhead(body, direction, this.worldLayer));
+    if (blocked) {
+      this.stopMoving(1);
+      return false;
+    }
+
+    const traction = this.statusEffects.getTractionMultiplier();
+    const targetVelocityX = direction * this.getSpeed();
+    body.setVelocityX(body.velocity.x + (targetVelocityX - body.velocity.x) * traction);
+    return true;
+  }
+
+  /**
+   * Slow down (rate is the fraction of speed lost per frame at full traction)
+   */
+  public stopMoving(rate: number = 0.1): void {
+    if (!this.body || this.isBeingPulled()) return;
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    const traction = this.statusEffects.getTractionMultiplier();
+    body.setVelocityX(body.velocity.x * (1 - Math.min(1, rate * traction)));
+    if (Math.abs(body.velocity.x) < 1) {
       body.setVelocityX(0);
     }
   }
 
+  /**
+   * Turn to face an x position
+   */
+  public faceToward(x: number): void {
+    if (x !== this.x) this.setFlipX(x < this.x);
+  }
+
+  /**
+   * Spawn x - patrols are centred here
+   */
+  public getHomeX(): number {
+    return this.homeX;
+  }
+
+  /**
+   * Set the level's pathfinding service (enemies with a jumpVelocity use it to chase)
+   */
+  public setNavigator(navigator: Navigator | null): void {
+    this.navigator = navigator;
+    this.path = null;
+  }
+
+  /**
+   * Can this enemy path across platforms
+   */
+  public canNavigate(): boolean {
+    return !!this.navigator && this.config.jumpVelocity !== undefined && !this.config.flying;
+  }
+
+  /**
+   * Movement limits for the nav graph (base speed, so Soggy doesn't split graphs)
+   */
+  public getNavProfile(): NavProfile {
+    return {
+      jumpVelocity: this.config.jumpVelocity ?? 0,
+      speed: this.config.speed,
+      height: this.height,
+    };
+  }
+
+  /**
+   * Head for a position - along a nav path when possible, otherwise walking
+   * straight at it and stopping at ledges. Stops once close.
+   */
+  public moveToward(point: { x: number; y: number }): void {
+    if (!this.body) return;
+
+    if (this.canNavigate() && this.followPath(point)) return;
+
+    const dx = point.x - this.x;
+    if (Math.abs(dx) < this.ARRIVE_DISTANCE) {
+      this.stopMoving();
+    } else {
+      this.walk(Math.sign(dx));
+    }
+  }
+
+  /**
+   * One frame along the current path (replanned every REPATH_FRAMES while grounded)
+   * Returns false when there's no path, so the caller falls back to walking
+   */
+  private followPath(point: { x: number; y: number }): boolean {
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    const graph = this.navigator!.getGraph(this.getNavProfile());
+    const grounded = body.blocked.down;
+
+    this.repathFrames--;
+    if (grounded && (this.repathFrames <= 0 || !this.path)) {
+      this.path = graph.findPath(this.x, body.bottom, point.x, point.y);
+      this.repathFrames = this.REPATH_FRAMES;
+    }
+    if (!this.path) return false;
+
+    // Skip past the node we're standing on
+    if (grounded) {
+      const current = graph.getNodeAt(this.x, body.bottom);
+      const index = current ? this.path.findIndex(step => step.node.id === current.id) : -1;
+      if (index >= 0) this.path.splice(0, index + 1);
+    }
+
+    // Same node as the target - close in directly
+    const step = this.path[0];
+    if (!step) return false;
+
+    const dx = step.node.x - this.x;
+    if (!grounded) {
+      // Jumps keep their launch velocity; drops steer onto the landing tile
+      if (step.type === NavLinkType.DROP && !this.isBeingPulled()) {
+        body.setVelocityX(Phaser.Math.Clamp(dx * 4, -this.getSpeed(), this.getSpeed()));
+      }
+      return true;
+    }
+
+    switch (step.type) {
+      case NavLinkType.JUMP:
+        // Take off from where the link was measured
+        if (Math.abs(step.from.x - this.x) > this.TAKEOFF_TOLERANCE) {
+          this.walk(Math.sign(step.from.x - this.x));
+        } else {
+          this.jumpTo(step, graph.getAirtime(body.bottom - step.node.y));
+        }
+        break;
+      case NavLinkType.DROP:
+        this.walk(Math.sign(dx) || 1, false);
+        break;
+      default:
+        this.walk(Math.sign(dx) || 1);
+    }
+    return true;
+  }
+
+  /**
+   * Launch so the arc lands on the step's node
+   */
+  private jumpTo(step: NavStep, airtime: number | null): void {
+    if (!this.statusEffects.canMove() || airtime === null) {
+      this.path = null; // Can't make it from here - replan
+      return;
+    }
+
+    // The speed the nav graph planned the jump with - Soggy slowing it would fall short
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    const speed = this.getNavProfile().speed;
+    const velocityX = Phaser.Math.Clamp((step.node.x - this.x) / airtime, -speed, speed);
+    this.faceToward(step.node.x);
+    body.setVelocity(velocityX, this.config.jumpVelocity!);
+  }
+
+  public getHealth(): number {
+    return this.health;
+  }
+
+  public getMaxHealth(): number {
+    return this.maxHealth;
+  }
+
+  /**
+   * Drop table rolled when defeated (null for none)
+   */
+  public getDropTable(): string | null {
+    return (this.config.drops ?? this.DEFAULT_DROPS) || null;
+  }
+
+  public getMaxSaturation(): number {
+    return this.config.maxSaturation;
+  }
+
   /**
    * Get saturation level (0 to maxSaturation)
    */
@@ -111,16 +602,229 @@ export class Enemy extends Phaser.Physics.Arcade.Sprite {
   }
 
   /**
-   * Check if enemy is soggy
+   * Check if enemy is soggy (Fried counts - it's still soaked in oil)
    */
   public getIsSoggy(): boolean {
-    return this.isSoggy;
+    return this.statusEffects.hasEffect(StatusEffectType.SOGGY) ||
+      this.statusEffects.hasEffect(StatusEffectType.FRIED);
   }
 
   /**
-   * Get damage this enemy deals to player
+   * Gatsby Sauce currency earned for this enemy going Soggy or being defeated
+   */
+  public getReward(event: EnemyEvent): number {
+    if (event === EnemyEvent.SOGGY) {
+      return this.config.soggyReward ?? this.DEFAULT_SOGGY_REWARD;
+    }
+    return this.config.defeatReward ?? this.DEFAULT_DEFEAT_REWARD;
+  }
+
+  /**
+   * Advance the attack through its phases
+   */
+  public updateAttack(): void {
+    const attack = this.getCurrentAttack();
+    if (!attack) return;
+
+    this.attackPhaseFrames--;
+    if (this.telegraph) {
+      this.telegraph.setPosition(this.x, this.getBounds().top - 2);
+    }
+    if (this.attackPhaseFrames > 0) return;
+
+    switch (this.attackPhase) {
+      case EnemyAttackPhase.WINDUP:
+        this.clearTelegraph();
+        this.attackPhase = EnemyAttackPhase.ACTIVE;
+        this.attackPhaseFrames = attack.activeFrames;
+        this.attackLanded = false;
+        this.onAttackActive();
+        break;
+
+      case EnemyAttackPhase.ACTIVE:
+        this.attackPhase = EnemyAttackPhase.RECOVERY;
+        this.attackPhaseFrames = attack.recoveryFrames;
+        break;
+
+      case EnemyAttackPhase.RECOVERY:
+        this.endAttack();
+        break;
+    }
+  }
+
+  /**
+   * Begin the attack windup (AttackState)
+   */
+  public startAttack(): void {
+    this.attackPhase = EnemyAttackPhase.WINDUP;
+    this.attackPhaseFrames = this.getCurrentAttack()!.windupFrames;
+    this.onAttackWindup();
+  }
+
+  private endAttack(): void {
+    this.attackPhase = EnemyAttackPhase.NONE;
+    this.attackCooldown = this.getCurrentAttack()?.cooldownFrames ?? this.DEFAULT_ATTACK_COOLDOWN;
+    this.clearTelegraph();
+    this.onAttackEnd();
+  }
+
+  /**
+   * Drop an attack in progress (e.g. stunned mid-windup)
+   */
+  public cancelAttack(): void {
+    if (this.attackPhase === EnemyAttackPhase.NONE) return;
+    this.endAttack();
+  }
+
+  private clearTelegraph(): void {
+    this.telegraph?.destroy();
+    this.telegraph = null;
+  }
+
+  /**
+   * Archetype hook: decide whether to begin an attack
+   * Default: has an attack, off cooldown, player within range and roughly level
+   */
+  public shouldStartAttack(target: { x: number; y: number }): boolean {
+    const attack = this.getCurrentAttack();
+    if (!attack || !this.isAttackReady()) return false;
+
+    return Math.abs(target.x - this.x) <= attack.range &&
+      Math.abs(target.y - this.y) <= this.ATTACK_REACH_Y;
+  }
+
+  /**
+   * Archetype hook: attack to use next (bosses switch between moves)
+   */
+  protected getCurrentAttack(): EnemyAttackConfig | undefined {
+    return this.config.attack;
+  }
+
+  /**
+   * Archetype hook: whether the enemy has any attack (runs during construction)
+   */
+  protected hasAttacks(): boolean {
+    return !!this.config.attack;
+  }
+
+  /**
+   * Has an attack and it's off cooldown
+   */
+  protected isAttackReady(): boolean {
+    return !!this.getCurrentAttack() && this.attackCooldown <= 0;
+  }
+
+  /**
+   * Archetype hook: telegraph the attack (default: "!" above the head)
+   */
+  protected onAttackWindup(): void {
+    this.clearTelegraph();
+    this.telegraph = this.scene.add.text(this.x, this.getBounds().top - 2, '!', {
+      fontFamily: 'Arial Black',
+      fontSize: '12px',
+      color: '#ffff00',
+      stroke: '#000000',
+      strokeThickness: 2,
+    });
+    this.telegraph.setOrigin(0.5, 1);
+    this.telegraph.setDepth(60);
+  }
+
+  /**
+   * Archetype hook: the attack goes live (e.g. lunge, throw a projectile)
+   */
+  protected onAttackActive(): void {
+    // Default attack is a swipe - the hitbox does the work
+  }
+
+  /**
+   * Archetype hook: attack finished or was cancelled
+   */
+  protected onAttackEnd(): void {
+    // Nothing to clean up for the default swipe
+  }
+
+  /**
+   * Archetype hook: area the attack hits while active (null for no melee hitbox)
+   * Default: a box in front of the enemy out to the attack range
+   */
+  protected getAttackHitbox(): Phaser.Geom.Rectangle | null {
+    const attack = this.getCurrentAttack();
+    if (!attack) return null;
+
+    const bounds = this.getBounds();
+    const facingLeft = this.flipX;
+    return new Phaser.Geom.Rectangle(
+      facingLeft ? bounds.left - attack.range : bounds.right,
+      bounds.top,
+      attack.range,
+      bounds.height
+    );
+  }
+
+  /**
+   * Archetype hook: projectiles in flight that can hurt the player
+   */
+  public getProjectiles(): EnemyProjectile[] {
+    return [];
+  }
+
+  /**
+   * Hitbox that can hurt the player this frame (null if none, or already landed)
+   */
+  public getActiveAttackHitbox(): Phaser.Geom.Rectangle | null {
+    if (this.attackPhase !== EnemyAttackPhase.ACTIVE || this.attackLanded) return null;
+    return this.getAttackHitbox();
+  }
+
+  /**
+   * The active attack connected - one hit per swing
+   */
+  public markAttackLanded(): void {
+    this.attackLanded = true;
+  }
+
+  /**
+   * Check if an attack is in progress
+   */
+  public isAttacking(): boolean {
+    return this.attackPhase !== EnemyAttackPhase.NONE;
+  }
+
+  /**
+   * Current attack phase
+   */
+  public getAttackPhase(): EnemyAttackPhase {
+    return this.attackPhase;
+  }
+
+  /**
+   * Check if touching this enemy hurts (not while stunned or frozen)
+   */
+  public dealsContactDamage(): boolean {
+    return this.active && this.statusEffects.canAct();
+  }
+
+  /**
+   * Multiplier on damage this enemy deals (Soggy enemies hit softer)
+   */
+  protected getDamageDealtMultiplier(): number {
+    return this.getIsSoggy()
+      ? this.config.soggyDamageMultiplier ?? this.DEFAULT_SOGGY_DAMAGE_MULTIPLIER
+      : 1;
+  }
+
+  /**
+   * Get contact damage this enemy deals to player
    */
   public getDamage(): number {
-    return this.config.damage;
+    return this.config.damage * this.getDamageDealtMultiplier();
+  }
+
+  /**
+   * Get damage of this enemy's attack
+   */
+  public getAttackDamage(): number {
+    return (this.getCurrentAttack()?.damage ?? this.config.damage) * this.getDamageDealtMultiplier();
   }
 }
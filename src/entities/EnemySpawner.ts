@@ -0,0 +1,45 @@
+import Phaser from 'phaser';
+import { Enemy } from './Enemy';
+import { ImpactEffects } from '../systems/weapons/ImpactEffects';
+
+/**
+ * Creates an enemy of an archetype standing on (x, y) - the level scene's spawnEnemy
+ */
+export type EnemySpawnFunction = (
+  type: string,
+  x: number,
+  y: number,
+  properties?: Record<string, unknown>
+) => Enemy | null;
+
+/**
+ * Enemy spawner - a named point encounter waves spawn enemies at
+ * Placed in Tiled as an 'enemy-spawner' point object at floor level (or in the air for flyers)
+ */
+export class EnemySpawner {
+  public readonly name: string;
+  public readonly x: number;
+  public readonly y: number;
+
+  private scene: Phaser.Scene;
+  private spawnEnemy: EnemySpawnFunction;
+
+  constructor(scene: Phaser.Scene, name: string, x: number, y: number, spawnEnemy: EnemySpawnFunction) {
+    this.scene = scene;
+    this.name = name;
+    this.x = x;
+    this.y = y;
+    this.spawnEnemy = spawnEnemy;
+  }
+
+  /**
+   * Spawn an enemy here with a puff so it doesn't just pop in
+   */
+  public spawn(type: string, properties?: Record<string, unknown>): Enemy | null {
+    const enemy = this.spawnEnemy(type, this.x, this.y, properties);
+    if (enemy) {
+      ImpactEffects.burst(this.scene, this.x, this.y - 8, 0xffffff, 14);
+    }
+    return enemy;
+  }
+}
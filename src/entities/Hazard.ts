@@ -0,0 +1,66 @@
+import Phaser from 'phaser';
+import { Affectable } from './Affectable';
+import { StatusEffectFactory, StatusEffectSpec } from '../systems/status/StatusEffectFactory';
+import { StatusEffectType } from '../systems/status/StatusEffect';
+
+export interface HazardConfig {
+  effect: StatusEffectSpec;
+  damage?: number;         // Dealt each time the hazard affects a target
+  cooldownFrames?: number; // Per target, before it can be affected again (default effect duration + 60)
+}
+
+/**
+ * Environmental hazard - a zone that applies a status effect on touch
+ * (oil slick: Slippery, freezer: Frozen, live wire: Stunned)
+ * Placed in Tiled as a 'hazard' rectangle with effect/duration/damage/cooldown properties
+ */
+export class Hazard extends Phaser.GameObjects.Zone {
+  private readonly DEFAULT_COOLDOWN_PADDING = 60; // Time to walk out after e.g. thawing
+
+  // Placeholder fill per effect until hazard art exists
+  private static readonly COLORS: Record<string, number> = {
+    [StatusEffectType.SLIPPERY]: 0x66ddaa,
+    [StatusEffectType.FROZEN]: 0xaaf0ff,
+    [StatusEffectType.STUNNED]: 0xffff66,
+    [StatusEffectType.BURNING]: 0xff6600,
+  };
+
+  private config: HazardConfig;
+  private cooldownFrames: number;
+  private lastAffected: Map<Affectable, number> = new Map();
+
+  constructor(scene: Phaser.Scene, x: number, y: number, width: number, height: number, config: HazardConfig) {
+    super(scene, x, y, width, height);
+    this.config = config;
+    this.cooldownFrames = config.cooldownFrames
+      ?? (config.effect.duration ?? 0) + this.DEFAULT_COOLDOWN_PADDING;
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this, true); // Static body
+
+    const visual = scene.add.rectangle(x, y, width, height, Hazard.COLORS[config.effect.type] ?? 0xffffff, 0.4);
+    this.once(Phaser.GameObjects.Events.DESTROY, () => visual.destroy());
+  }
+
+  /**
+   * Apply the hazard to a target touching it (respects the per-target cooldown)
+   */
+  public affect(target: Affectable): void {
+    if (!target.active) return;
+
+    const frame = this.scene.game.getFrame();
+    const last = this.lastAffected.get(target);
+    if (last !== undefined && frame - last < this.cooldownFrames) return;
+    this.lastAffected.set(target, frame);
+
+    if (this.config.damage) {
+      target.takeDamage(this.config.damage, 0, this);
+      if (!target.active) return;
+    }
+
+    const effect = StatusEffectFactory.create(this.config.effect);
+    if (effect) {
+      target.getStatusEffects().applyEffect(effect);
+    }
+  }
+}
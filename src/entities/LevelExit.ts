@@ -0,0 +1,65 @@
+import Phaser from 'phaser';
+
+export interface LevelExitConfig {
+  target?: string;  // Level to load (default: back to the level select)
+  spawn?: string;   // Named player-spawn in the target level (default: its first)
+  door?: boolean;   // Press up to go through instead of walking in
+}
+
+/**
+ * Way out of a level - an 'exit' walked into, or a 'door' entered by pressing up
+ * Exits complete the level (unlocking the next in the sequence); doors just travel
+ * Placed in Tiled as an 'exit' or 'door' rectangle with `target` and `spawn` properties
+ */
+export class LevelExit extends Phaser.GameObjects.Zone {
+  private readonly DOOR_COLOR = 0x6b4226;
+
+  private config: LevelExitConfig;
+  private door: Phaser.GameObjects.Rectangle | null = null;
+  private prompt: Phaser.GameObjects.Text | null = null;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, width: number, height: number, config: LevelExitConfig) {
+    super(scene, x, y, width, height);
+    this.config = config;
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this, true); // Static body
+
+    if (config.door) {
+      // Placeholder door until door art exists
+      this.door = scene.add.rectangle(x, y, width, height, this.DOOR_COLOR);
+      this.door.setStrokeStyle(1, 0x000000);
+      this.prompt = scene.add.text(x, y - height / 2 - 4, '▲', {
+        fontFamily: 'Arial',
+        fontSize: '10px',
+        color: '#ffffff',
+      });
+      this.prompt.setOrigin(0.5, 1);
+      this.prompt.setVisible(false);
+    }
+
+    this.once(Phaser.GameObjects.Events.DESTROY, () => {
+      this.door?.destroy();
+      this.prompt?.destroy();
+    });
+  }
+
+  /**
+   * Show or hide the "press up" hint (doors only)
+   */
+  public setPromptVisible(visible: boolean): void {
+    this.prompt?.setVisible(visible);
+  }
+
+  public isDoor(): boolean {
+    return this.config.door ?? false;
+  }
+
+  public getTarget(): string | undefined {
+    return this.config.target;
+  }
+
+  public getSpawn(): string | undefined {
+    return this.config.spawn;
+  }
+}
@@ -1,21 +1,68 @@
 import Phaser from 'phaser';
 import { InputMapper, GameAction } from '../systems/InputMapper';
-import { PLAYER_SPEED, PLAYER_JUMP_VELOCITY, COYOTE_TIME_FRAMES, INPUT_BUFFER_FRAMES } from '../game/constants';
+import {
+  PLAYER_SPEED,
+  PLAYER_JUMP_VELOCITY,
+  PLAYER_MAX_HEALTH,
+  PLAYER_INVULNERABLE_FRAMES,
+  PLAYER_HITSTUN_FRAMES,
+  PLAYER_KNOCKBACK_SPEED,
+  PLAYER_KNOCKBACK_LIFT,
+  COYOTE_TIME_FRAMES,
+  INPUT_BUFFER_FRAMES,
+  ROPE_MIN_LENGTH,
+  ROPE_REEL_SPEED,
+  ROPE_SWING_ACCELERATION,
+  ROPE_JUMP_OFF_VELOCITY,
+  GRAPPLE_PULL_SPEED,
+  GRAPPLE_ARRIVE_DISTANCE,
+} from '../game/constants';
 import { WeaponManager } from '../systems/WeaponManager';
 import { StatusEffectManager } from '../systems/StatusEffectManager';
-import { StatusEffectType } from '../systems/status/StatusEffect';
 import { SoggyEffect } from '../systems/status/SoggyEffect';
+import { StatusEffectVfx } from '../systems/status/StatusEffectVfx';
+import { Affectable, DamageSource } from './Affectable';
+
+/**
+ * Active grapple: swing on a rope above, or zip toward a level/low anchor
+ */
+interface GrappleState {
+  x: number;
+  y: number;
+  length: number;
+  mode: 'swing' | 'pull';
+}
+
+/**
+ * Events emitted by the player
+ */
+export enum PlayerEvent {
+  HEALTH_CHANGED = 'player-health-changed', // (health: number, maxHealth: number)
+  DIED = 'player-died',                     // (player) - after the death animation starts
+  RESPAWNED = 'player-respawned',           // (player)
+}
 
 /**
  * Player entity with physics, movement, and game feel enhancements
  */
-export class Player extends Phaser.Physics.Arcade.Sprite {
+export class Player extends Phaser.Physics.Arcade.Sprite implements Affectable {
   private inputMapper: InputMapper;
   private weaponManager: WeaponManager;
   private statusEffectManager: StatusEffectManager;
   private coyoteFrames: number = 0;
   private jumpBufferFrames: number = 0;
-  private currentSpeed: number = PLAYER_SPEED;
+  private baseSpeed: number = PLAYER_SPEED;
+  private grapple: GrappleState | null = null;
+  private maxHealth: number = PLAYER_MAX_HEALTH;
+  private health: number = PLAYER_MAX_HEALTH;
+  private dead: boolean = false;
+
+  // Damage feedback (frames)
+  private readonly HURT_FLASH_FRAMES = 6;
+  private readonly BLINK_INTERVAL_FRAMES = 4;
+  private invulnerableFrames: number = 0;
+  private hitstunFrames: number = 0;
+  private hurtFlashFrames: number = 0;
 
   constructor(scene: Phaser.Scene, x: number, y: number, inputMapper: InputMapper) {
     // Use the Athlone character sprite
@@ -37,6 +84,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     }
     if (this.statusEffectManager) {
       this.statusEffectManager.setTarget(this);
+      new StatusEffectVfx(scene, this, this.statusEffectManager);
     }
 
     // Set up physics body
@@ -67,6 +115,12 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
 
     const body = this.body as Phaser.Physics.Arcade.Body;
 
+    // Dead - no input or systems until the scene respawns us
+    if (this.dead) {
+      body.setVelocityX(0);
+      return;
+    }
+
     // Update systems
     if (this.weaponManager) {
       this.weaponManager.update();
@@ -74,7 +128,64 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     if (this.statusEffectManager) {
       this.statusEffectManager.update();
     }
+    this.updateDamageFeedback();
+
+    // Stunned/Frozen or knocked back: no input at all, let go of the rope
+    const knockedBack = this.hitstunFrames > 0;
+    const canAct = !knockedBack && (this.statusEffectManager ? this.statusEffectManager.canAct() : true);
+    if (!canAct && this.grapple) {
+      this.releaseGrapple(false);
+    }
+
+    // Rope swing/pull replaces normal movement while attached
+    if (this.grapple) {
+      this.updateGrapple(body);
+    } else if (canAct) {
+      this.updateMovement(body);
+    } else if (!knockedBack) {
+      this.updateIncapacitated(body);
+    }
+    // (Knockback velocity carries the player until control returns)
+
+    // Round coordinates for pixel-perfect rendering
+    this.x = Math.round(this.x);
+    this.y = Math.round(this.y);
+
+    // Handle weapon input
+    if (canAct) {
+      this.handleWeaponInput();
+    } else {
+      this.weaponManager?.interrupt();
+    }
+
+    // Update animations based on state
+    this.updateAnimation();
+  }
+
+  /**
+   * Tick i-frames (blinking), hitstun and the hurt flash
+   * Blinking uses alpha so it never fights the status effect tint
+   */
+  private updateDamageFeedback(): void {
+    if (this.hitstunFrames > 0) {
+      this.hitstunFrames--;
+    }
+
+    if (this.invulnerableFrames > 0) {
+      this.invulnerableFrames--;
+      const blinkOn = Math.floor(this.invulnerableFrames / this.BLINK_INTERVAL_FRAMES) % 2 === 0;
+      this.setAlpha(this.invulnerableFrames > 0 && !blinkOn ? 0.3 : 1);
+    }
+
+    if (this.hurtFlashFrames > 0) {
+      this.hurtFlashFrames--;
+      if (this.hurtFlashFrames === 0) {
+        this.refreshTint();
+      }
+    }
+  }
 
+  private updateMovement(body: Phaser.Physics.Arcade.Body): void {
     // Update coyote time
     if (body.onFloor()) {
       this.coyoteFrames = COYOTE_TIME_FRAMES;
@@ -105,36 +216,108 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
       }
     }
 
-    // Handle horizontal movement (use currentSpeed which can be modified by status effects)
+    // Handle horizontal movement (speed is modified by status effects)
     const axis = this.inputMapper.getAxis();
-    if (axis.x !== 0) {
-      body.setVelocityX(axis.x * this.currentSpeed);
+    const aimLocked = this.inputMapper.isActionActive(GameAction.AIM_LOCK);
 
-      // Flip sprite based on direction
-      if (axis.x < 0) {
-        this.setFlipX(false); // Moving left - keep west sprite as-is
-      } else if (axis.x > 0) {
-        this.setFlipX(true); // Moving right - flip west sprite to face right
-      }
+    // Flip sprite based on direction (still turns while aim-locked)
+    if (axis.x < 0) {
+      this.setFlipX(false); // Moving left - keep west sprite as-is
+    } else if (axis.x > 0) {
+      this.setFlipX(true); // Moving right - flip west sprite to face right
+    }
+
+    // Slippery lowers traction: full traction snaps to the target speed
+    const traction = this.getTraction();
+
+    if (axis.x !== 0 && !aimLocked) {
+      const targetVelocityX = axis.x * this.getSpeed();
+      body.setVelocityX(body.velocity.x + (targetVelocityX - body.velocity.x) * traction);
     } else {
-      // Apply friction when not moving
-      body.setVelocityX(body.velocity.x * 0.9);
+      this.applyFriction(body, traction);
+    }
+  }
+
+  /**
+   * Stunned or Frozen - slide to a stop (Frozen stops dead) without input
+   */
+  private updateIncapacitated(body: Phaser.Physics.Arcade.Body): void {
+    this.jumpBufferFrames = 0;
 
-      // Stop completely if velocity is very low
-      if (Math.abs(body.velocity.x) < 1) {
-        body.setVelocityX(0);
+    if (this.statusEffectManager && !this.statusEffectManager.canMove()) {
+      body.setVelocityX(0);
+      return;
+    }
+    this.applyFriction(body, this.getTraction());
+  }
+
+  private applyFriction(body: Phaser.Physics.Arcade.Body, traction: number): void {
+    // Apply friction when not moving
+    body.setVelocityX(body.velocity.x * (1 - 0.1 * traction));
+
+    // Stop completely if velocity is very low
+    if (Math.abs(body.velocity.x) < 1) {
+      body.setVelocityX(0);
+    }
+  }
+
+  private getTraction(): number {
+    return this.statusEffectManager ? this.statusEffectManager.getTractionMultiplier() : 1;
+  }
+
+  private updateGrapple(body: Phaser.Physics.Arcade.Body): void {
+    const grapple = this.grapple!;
+
+    // Jump off with a boost, or press down to let go
+    if (this.inputMapper.isActionJustPressed(GameAction.JUMP)) {
+      this.releaseGrapple(true);
+      return;
+    }
+    if (this.inputMapper.isActionJustPressed(GameAction.MOVE_DOWN)) {
+      this.releaseGrapple(false);
+      return;
+    }
+
+    const dx = this.x - grapple.x;
+    const dy = this.y - grapple.y;
+    const distance = Math.hypot(dx, dy) || 1;
+
+    if (grapple.mode === 'pull') {
+      // Zip toward the anchor until we arrive or hit something on the way
+      const blockedOnPath =
+        (dx < 0 && body.blocked.right) ||
+        (dx > 0 && body.blocked.left) ||
+        (dy < 0 && body.blocked.down) ||
+        (dy > 0 && body.blocked.up);
+      if (distance <= GRAPPLE_ARRIVE_DISTANCE || blockedOnPath) {
+        this.releaseGrapple(false);
+        return;
       }
+      body.setVelocity((-dx / distance) * GRAPPLE_PULL_SPEED, (-dy / distance) * GRAPPLE_PULL_SPEED);
+      return;
     }
 
-    // Round coordinates for pixel-perfect rendering
-    this.x = Math.round(this.x);
-    this.y = Math.round(this.y);
+    // Reel in slowly so the swing tightens over time
+    grapple.length = Math.max(ROPE_MIN_LENGTH, grapple.length - ROPE_REEL_SPEED);
 
-    // Handle weapon input
-    this.handleWeaponInput();
+    // Pump the swing with horizontal input
+    const axis = this.inputMapper.getAxis();
+    if (axis.x !== 0) {
+      body.setVelocityX(body.velocity.x + axis.x * ROPE_SWING_ACCELERATION);
+      this.setFlipX(axis.x > 0);
+    }
 
-    // Update animations based on state
-    this.updateAnimation();
+    // Rope constraint: clamp to the rope length and drop outward velocity
+    if (distance > grapple.length) {
+      const nx = dx / distance;
+      const ny = dy / distance;
+      this.setPosition(grapple.x + nx * grapple.length, grapple.y + ny * grapple.length);
+
+      const radialSpeed = body.velocity.x * nx + body.velocity.y * ny;
+      if (radialSpeed > 0) {
+        body.setVelocity(body.velocity.x - radialSpeed * nx, body.velocity.y - radialSpeed * ny);
+      }
+    }
   }
 
   private handleWeaponInput(): void {
@@ -150,16 +333,50 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
       this.weaponManager.previousWeapon();
     }
 
+    // Manual reload (magazine weapons also reload automatically when empty)
+    if (inputState.reloadJustPressed) {
+      this.weaponManager.reload();
+    }
+
+    const aimDirection = this.getAimDirection();
+
     // Primary fire
     if (inputState.primaryFireJustPressed || inputState.primaryFire) {
-      const facingDirection = {
-        x: this.flipX ? -1 : 1,
-        y: 0,
-      };
-      this.weaponManager.fire(facingDirection);
+      this.weaponManager.fire(aimDirection);
+    } else {
+      // Continuous weapons (Masala Flamer) stop when fire is released
+      this.weaponManager.stopFiring();
+    }
+
+    // Secondary fire (charged secondaries trigger on release)
+    if (inputState.secondaryFireJustPressed) {
+      this.weaponManager.fireSecondary(aimDirection);
+    } else if (!inputState.secondaryFire) {
+      this.weaponManager.releaseSecondary(aimDirection);
     }
   }
 
+  /**
+   * Eight-direction aim from movement input (unit vector)
+   * - No input: fire the way we're facing
+   * - Down only aims downward in mid-air (on the ground it would hit the floor)
+   */
+  public getAimDirection(): { x: number; y: number } {
+    const inputState = this.inputMapper.getInputState();
+    const body = this.body as Phaser.Physics.Arcade.Body | null;
+    const onFloor = body ? body.onFloor() : true;
+
+    const x = inputState.moveX;
+    const y = inputState.moveY > 0 && onFloor ? 0 : inputState.moveY;
+
+    if (y === 0) {
+      return { x: this.flipX ? 1 : -1, y: 0 };
+    }
+
+    const length = Math.hypot(x, y);
+    return { x: x / length, y: y / length };
+  }
+
   private jump(): void {
     if (!this.body) return;
 
@@ -178,34 +395,222 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     // For now, the character sprite displays without tints
   }
 
+  /**
+   * Attach to a grapple anchor (called by Calamari Whip)
+   * Anchors above swing on a rope; level or lower anchors pull the player in
+   */
+  public startGrapple(x: number, y: number): void {
+    if (!this.body) return;
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    const mode = y < this.y - GRAPPLE_ARRIVE_DISTANCE ? 'swing' : 'pull';
+
+    this.grapple = {
+      x,
+      y,
+      length: Math.max(ROPE_MIN_LENGTH, Phaser.Math.Distance.Between(this.x, this.y, x, y)),
+      mode,
+    };
+    this.jumpBufferFrames = 0;
+
+    if (mode === 'pull') {
+      body.setAllowGravity(false);
+    }
+  }
+
+  /**
+   * Let go of the grapple, optionally jumping off with a boost
+   */
+  public releaseGrapple(jumpOff: boolean): void {
+    if (!this.grapple) return;
+
+    this.grapple = null;
+
+    if (!this.body) return;
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    body.setAllowGravity(true);
+
+    if (jumpOff) {
+      // Keep upward swing momentum, capped so a jump-off can't launch too far
+      const velocityY = Math.min(body.velocity.y, 0) + ROPE_JUMP_OFF_VELOCITY;
+      body.setVelocityY(Math.max(velocityY, PLAYER_JUMP_VELOCITY * 1.5));
+    }
+  }
+
+  /**
+   * Check if the player is attached to a grapple anchor
+   */
+  public isGrappling(): boolean {
+    return this.grapple !== null;
+  }
+
+  /**
+   * Get the current grapple anchor point
+   */
+  public getGrappleAnchor(): { x: number; y: number } | null {
+    return this.grapple ? { x: this.grapple.x, y: this.grapple.y } : null;
+  }
+
   /**
    * Called when player takes damage
    */
-  public takeDamage(amount: number): void {
-    let finalDamage = amount;
+  public takeDamage(amount: number, _saturation: number = 0, source?: DamageSource): void {
+    if (this.dead || this.invulnerableFrames > 0) return;
 
-    // Check for Soggy status (2x damage)
-    if (this.statusEffectManager) {
-      const soggyEffect = this.statusEffectManager.getEffect(StatusEffectType.SOGGY);
-      if (soggyEffect) {
-        finalDamage *= (soggyEffect as SoggyEffect).getDamageMultiplier();
-      }
+    // Soggy (and other effects) scale damage taken
+    const multiplier = this.statusEffectManager ? this.statusEffectManager.getDamageTakenMultiplier() : 1;
+    const finalDamage = amount * multiplier;
+
+    this.health = Math.max(0, this.health - finalDamage);
+    console.log(`Player took ${finalDamage} damage (base: ${amount}), ${this.health}/${this.maxHealth} HP`);
+    this.emit(PlayerEvent.HEALTH_CHANGED, this.health, this.maxHealth);
+
+    if (this.health <= 0) {
+      this.die();
+      return;
+    }
+
+    // Flash red briefly, then back to the status tint
+    this.hurtFlashFrames = this.HURT_FLASH_FRAMES;
+    this.refreshTint();
+
+    // Heavy hits can shatter Frozen - before the i-frames, which would block the shatter damage
+    this.statusEffectManager?.notifyHit(finalDamage);
+    if (this.dead) return;
+
+    // Hits from a source knock us back and grant i-frames; status ticks don't
+    if (source) {
+      this.knockback(source);
+      this.setInvulnerable(PLAYER_INVULNERABLE_FRAMES);
     }
+  }
+
+  /**
+   * Push away from a damage source and take control away briefly
+   */
+  private knockback(source: DamageSource): void {
+    if (!this.body || (this.statusEffectManager && !this.statusEffectManager.canMove())) return;
+
+    // Straight above/below pushes away from the way we're facing
+    const direction = source.x === this.x ? (this.flipX ? -1 : 1) : Math.sign(this.x - source.x);
+    const body = this.body as Phaser.Physics.Arcade.Body;
+
+    this.releaseGrapple(false);
+    body.setVelocity(direction * PLAYER_KNOCKBACK_SPEED, PLAYER_KNOCKBACK_LIFT);
+    this.hitstunFrames = PLAYER_HITSTUN_FRAMES;
+    this.jumpBufferFrames = 0;
+  }
+
+  /**
+   * Ignore damage for a number of frames (blinks while active)
+   */
+  public setInvulnerable(frames: number): void {
+    this.invulnerableFrames = Math.max(this.invulnerableFrames, frames);
+  }
 
-    console.log(`Player took ${finalDamage} damage (base: ${amount})`);
+  /**
+   * Check if the player is in i-frames
+   */
+  public isInvulnerable(): boolean {
+    return this.invulnerableFrames > 0;
+  }
+
+  /**
+   * Restore health (capped at max)
+   */
+  public heal(amount: number): void {
+    if (this.dead || amount <= 0) return;
 
-    // Flash red briefly
+    this.health = Math.min(this.maxHealth, this.health + amount);
+    this.emit(PlayerEvent.HEALTH_CHANGED, this.health, this.maxHealth);
+  }
+
+  /**
+   * Out of health - stop everything, play the death animation and tell the scene
+   */
+  private die(): void {
+    this.dead = true;
+    console.log('Player died!');
+
+    this.releaseGrapple(false);
+    this.weaponManager?.interrupt();
+    this.statusEffectManager?.clearAll();
+
+    if (this.body) {
+      (this.body as Phaser.Physics.Arcade.Body).setVelocity(0, PLAYER_JUMP_VELOCITY * 0.5);
+    }
+
+    this.playDeathAnimation();
+    this.emit(PlayerEvent.DIED, this);
+  }
+
+  /**
+   * Death animation hook
+   * TODO: Play the death sprite animation when animation assets are available
+   */
+  private playDeathAnimation(): void {
     this.setTint(0xff0000);
-    this.scene.time.delayedCall(100, () => {
-      // Only clear tint if not soggy
-      if (!this.statusEffectManager || !this.statusEffectManager.hasEffect(StatusEffectType.SOGGY)) {
-        this.clearTint();
-      } else {
-        this.setTint(0x8888ff); // Restore soggy tint
-      }
+    this.scene.tweens.add({
+      targets: this,
+      angle: this.flipX ? 90 : -90,
+      alpha: 0.4,
+      duration: 600,
+      ease: 'Quad.easeOut',
     });
+  }
+
+  /**
+   * Come back to life at a spawn point or checkpoint with full health
+   */
+  public respawn(x: number, y: number): void {
+    this.scene.tweens.killTweensOf(this);
+    this.setAngle(0);
+    this.setAlpha(1);
+
+    this.dead = false;
+    this.health = this.maxHealth;
+    this.hitstunFrames = 0;
+    this.hurtFlashFrames = 0;
+    this.statusEffectManager?.clearAll();
+    this.reset(x, y);
+
+    // Grace period so we don't respawn straight into damage
+    this.invulnerableFrames = 0;
+    this.setInvulnerable(PLAYER_INVULNERABLE_FRAMES);
+
+    this.emit(PlayerEvent.HEALTH_CHANGED, this.health, this.maxHealth);
+    this.emit(PlayerEvent.RESPAWNED, this);
+  }
 
-    // TODO: Reduce health
+  /**
+   * Check if the player is dead (waiting to respawn)
+   */
+  public isDead(): boolean {
+    return this.dead;
+  }
+
+  /**
+   * Current health
+   */
+  public getHealth(): number {
+    return this.health;
+  }
+
+  /**
+   * Maximum health
+   */
+  public getMaxHealth(): number {
+    return this.maxHealth;
+  }
+
+  /**
+   * Set health directly (e.g. carried over from the previous map), clamped to 1..max
+   */
+  public setHealth(health: number): void {
+    if (this.dead) return;
+
+    this.health = Phaser.Math.Clamp(Math.round(health), 1, this.maxHealth);
+    this.emit(PlayerEvent.HEALTH_CHANGED, this.health, this.maxHealth);
   }
 
   /**
@@ -218,29 +623,56 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   }
 
   /**
-   * Get current speed (can be modified by status effects)
+   * Get the player's status effects
+   */
+  public getStatusEffects(): StatusEffectManager {
+    return this.statusEffectManager;
+  }
+
+  /**
+   * Tint from active status effects (none if no effect is tinted)
+   */
+  public refreshTint(): void {
+    // Hurt flash wins until it ends, then the status tint comes back
+    if (this.hurtFlashFrames > 0) {
+      this.setTint(0xff0000);
+      return;
+    }
+
+    const tint = this.statusEffectManager?.getTint();
+    if (tint !== undefined) {
+      this.setTint(tint);
+    } else {
+      this.clearTint();
+    }
+  }
+
+  /**
+   * Get current speed (base speed modified by status effects)
    */
   public getSpeed(): number {
-    return this.currentSpeed;
+    const multiplier = this.statusEffectManager ? this.statusEffectManager.getSpeedMultiplier() : 1;
+    return this.baseSpeed * multiplier;
   }
 
   /**
-   * Set current speed (called by status effects)
+   * Set base speed (before status effects)
    */
   public setSpeed(speed: number): void {
-    this.currentSpeed = speed;
+    this.baseSpeed = speed;
   }
 
   /**
    * Reset player to spawn position
    */
   public reset(x: number, y: number): void {
+    this.releaseGrapple(false);
     this.setPosition(x, y);
     if (this.body) {
       const body = this.body as Phaser.Physics.Arcade.Body;
       body.setVelocity(0, 0);
     }
-    this.clearTint();
+    this.refreshTint();
     this.coyoteFrames = 0;
     this.jumpBufferFrames = 0;
   }
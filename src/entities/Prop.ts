@@ -0,0 +1,133 @@
+import Phaser from 'phaser';
+import { ObjectProperties } from '../systems/levels/TiledObjectFactory';
+
+/**
+ * How a prop takes part in physics
+ * none = scenery, static = solid (the player and enemies bump into it),
+ * dynamic = falls and can be pushed around
+ */
+export type PropPhysics = 'none' | 'static' | 'dynamic';
+
+export interface PropConfig {
+  texture: string;
+  physics: PropPhysics;
+  width: number;   // Placeholder size if the texture isn't loaded
+  height: number;
+  color: number;   // Placeholder colour
+}
+
+/**
+ * Tiled properties every prop accepts
+ */
+export const PROP_PROPERTIES = {
+  physics: { type: 'string' },  // Override the type's PropPhysics
+  flipX: { type: 'bool' },
+  depth: { type: 'int' },
+} as const;
+
+export type PropProperties = ObjectProperties<typeof PROP_PROPERTIES>;
+
+/**
+ * Scenery sprite placed from Tiled - street lamps, gym equipment, dustbins...
+ * Placed as a point (or rectangle) whose bottom-centre is where it stands.
+ *
+ * Custom props register before the level starts:
+ *   Prop.register('braai', { texture: 'braai', physics: 'static', width: 24, height: 16, color: 0x444444 });
+ */
+export class Prop extends Phaser.Physics.Arcade.Sprite {
+  private static readonly DRAG = 600; // Dynamic props slide to a stop once pushed
+
+  private static types: Map<string, PropConfig> = new Map([
+    ['street-lamp', { texture: 'street-lamp', physics: 'none', width: 8, height: 48, color: 0x999999 }],
+    ['gym-equipment', { texture: 'gym-equipment', physics: 'static', width: 32, height: 24, color: 0x3366aa }],
+    ['dustbin', { texture: 'trash-bin', physics: 'dynamic', width: 12, height: 16, color: 0x2e8b57 }],
+  ]);
+
+  private readonly physicsMode: PropPhysics;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, config: PropConfig, physics: PropPhysics = config.physics) {
+    // Placeholder block per size until the prop art is loaded
+    let texture = config.texture;
+    if (!scene.textures.exists(texture)) {
+      texture = `prop-placeholder-${config.width}x${config.height}-${config.color.toString(16)}`;
+      if (!scene.textures.exists(texture)) {
+        const graphics = scene.add.graphics();
+        graphics.fillStyle(config.color, 1);
+        graphics.fillRect(0, 0, config.width, config.height);
+        graphics.generateTexture(texture, config.width, config.height);
+        graphics.destroy();
+      }
+    }
+
+    super(scene, x, y, texture);
+    this.physicsMode = physics;
+    this.setOrigin(0.5, 1);
+
+    scene.add.existing(this);
+    if (physics === 'none') return;
+
+    scene.physics.add.existing(this, physics === 'static');
+    if (physics === 'dynamic') {
+      const body = this.body as Phaser.Physics.Arcade.Body;
+      body.setDragX(Prop.DRAG);
+      body.setCollideWorldBounds(true);
+    }
+  }
+
+  /**
+   * Register (or replace) a prop type
+   */
+  public static register(type: string, config: PropConfig): void {
+    if (Prop.types.has(type)) {
+      console.warn(`Prop: Replacing prop type '${type}'`);
+    }
+    Prop.types.set(type, config);
+  }
+
+  public static has(type: string): boolean {
+    return Prop.types.has(type);
+  }
+
+  /**
+   * Get registered prop types
+   */
+  public static getTypes(): string[] {
+    return Array.from(Prop.types.keys());
+  }
+
+  /**
+   * Create a registered prop standing on (x, y) - null for unknown types
+   */
+  public static spawn(scene: Phaser.Scene, type: string, x: number, y: number, properties: PropProperties): Prop | null {
+    const config = Prop.types.get(type);
+    if (!config) {
+      console.warn(`Prop: Unknown prop type '${type}'`);
+      return null;
+    }
+
+    let physics = config.physics;
+    if (properties.physics !== undefined) {
+      if (['none', 'static', 'dynamic'].includes(properties.physics)) {
+        physics = properties.physics as PropPhysics;
+      } else {
+        console.warn(`Prop: '${type}' physics must be none, static or dynamic - using '${physics}'`);
+      }
+    }
+
+    const prop = new Prop(scene, x, y, config, physics);
+    prop.setFlipX(properties.flipX ?? false);
+    if (properties.depth !== undefined) prop.setDepth(properties.depth);
+    return prop;
+  }
+
+  /**
+   * Whether anything collides with it
+   */
+  public isSolid(): boolean {
+    return this.physicsMode !== 'none';
+  }
+
+  public getPhysicsMode(): PropPhysics {
+    return this.physicsMode;
+  }
+}
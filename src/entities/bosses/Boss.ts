@@ -0,0 +1,296 @@
+import Phaser from 'phaser';
+import { Enemy, EnemyConfig, EnemyAttackConfig } from '../Enemy';
+import { ImpactEffects } from '../../systems/weapons/ImpactEffects';
+
+/**
+ * One stage of a boss fight - entered once health drops or saturation builds past
+ * its threshold (whichever comes first); phases only ever advance
+ */
+export interface BossPhase {
+  name: string;
+  healthBelow?: number;     // Fraction of max health (0-1)
+  saturationAbove?: number; // Fraction of max saturation (0-1)
+  speedMultiplier?: number; // Default 1
+  pattern: string[];        // Move ids, used in order and looped
+}
+
+export interface BossConfig extends EnemyConfig {
+  name: string;                             // Shown on the boss bar
+  moves: Record<string, EnemyAttackConfig>; // Telegraphed attacks by id
+  phases: BossPhase[];                      // The first is the opening phase
+  soggyToDamage?: boolean;                  // Health only drops while Soggy
+}
+
+/**
+ * Events emitted by bosses (all pass the boss first)
+ */
+export enum BossEvent {
+  INTRO_STARTED = 'boss-intro-started',
+  FIGHT_STARTED = 'boss-fight-started',
+  PHASE_CHANGED = 'boss-phase-changed', // (boss, phase: BossPhase, index: number)
+  OUTRO_STARTED = 'boss-outro-started', // DEFEATED follows when the outro finishes
+}
+
+export enum BossStage {
+  DORMANT = 'dormant', // Spawned, waiting for its first update
+  INTRO = 'intro',
+  FIGHTING = 'fighting',
+  OUTRO = 'outro',
+}
+
+/**
+ * Boss - Large enemy with phases, per-phase attack patterns and intro/outro sequences
+ * Runs the normal enemy AI while fighting; each attack uses the next move in the
+ * current phase's pattern. Invulnerable outside the fight.
+ *
+ * Subclasses react to moves in the attack hooks via getCurrentMove(), and can
+ * override playIntro/playOutro/onPhaseChanged for set pieces.
+ */
+export class Boss extends Enemy {
+  private readonly INTRO_DURATION_MS = 1500;
+  private readonly OUTRO_DURATION_MS = 1500;
+
+  private stage: BossStage = BossStage.DORMANT;
+  private phases: BossPhase[] = [];
+  private phaseIndex: number = 0;
+  private patternIndex: number = 0;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, config: BossConfig) {
+    super(scene, x, y, config);
+    this.phases = this.validatePhases(config);
+  }
+
+  protected getBossConfig(): BossConfig {
+    return this.config as BossConfig;
+  }
+
+  /**
+   * Drop unknown moves from patterns; a phase left with none uses every move
+   */
+  private validatePhases(config: BossConfig): BossPhase[] {
+    const moveIds = Object.keys(config.moves);
+    if (config.phases.length === 0) {
+      console.warn(`Boss: '${config.name}' has no phases - using all moves`);
+      return [{ name: 'default', pattern: moveIds }];
+    }
+
+    return config.phases.map(phase => {
+      const pattern = phase.pattern.filter(id => {
+        if (config.moves[id]) return true;
+        console.warn(`Boss: '${config.name}' phase '${phase.name}' uses unknown move '${id}' - skipped`);
+        return false;
+      });
+      return { ...phase, pattern: pattern.length > 0 ? pattern : moveIds };
+    });
+  }
+
+  public update(target: { x: number; y: number }): void {
+    if (!this.body) return;
+
+    switch (this.stage) {
+      case BossStage.DORMANT:
+        this.startIntro();
+        break;
+
+      case BossStage.FIGHTING:
+        super.update(target);
+        break;
+
+      default:
+        // Hold still during set pieces
+        this.stopMoving(1);
+    }
+  }
+
+  private startIntro(): void {
+    this.stage = BossStage.INTRO;
+    this.emit(BossEvent.INTRO_STARTED, this);
+    this.playIntro(() => {
+      if (!this.active) return;
+      this.stage = BossStage.FIGHTING;
+      this.emit(BossEvent.FIGHT_STARTED, this);
+    });
+  }
+
+  /**
+   * Intro sequence hook - call done when the fight should begin
+   * Default: a roar (shake and burst) and a pause while the boss bar shows the name
+   */
+  protected playIntro(done: () => void): void {
+    this.scene.cameras.main.shake(400, 0.004);
+    ImpactEffects.burst(this.scene, this.x, this.y, 0xffffff, 30);
+    this.scene.time.delayedCall(this.INTRO_DURATION_MS, done);
+  }
+
+  /**
+   * Outro sequence hook - call done to remove the boss (DEFEATED is emitted then)
+   * Default: flicker with bursts, then fade
+   */
+  protected playOutro(done: () => void): void {
+    const bounds = this.getBounds();
+    this.scene.time.addEvent({
+      delay: 200,
+      repeat: 5,
+      callback: () => ImpactEffects.burst(
+        this.scene,
+        Phaser.Math.Between(bounds.left, bounds.right),
+        Phaser.Math.Between(bounds.top, bounds.bottom),
+        0xffaa33,
+        14
+      ),
+    });
+    this.scene.tweens.add({
+      targets: this,
+      alpha: 0,
+      delay: this.OUTRO_DURATION_MS / 2,
+      duration: this.OUTRO_DURATION_MS / 2,
+      onComplete: done,
+    });
+  }
+
+  /**
+   * Phase change hook - default: flash, shake and a burst
+   */
+  protected onPhaseChanged(_phase: BossPhase): void {
+    this.scene.cameras.main.shake(250, 0.006);
+    this.scene.cameras.main.flash(150, 255, 255, 255);
+    ImpactEffects.burst(this.scene, this.x, this.y, 0xff3333, 28);
+  }
+
+  /**
+   * Only hurt while fighting (and while Soggy for soggyToDamage bosses - other hits still soak it)
+   */
+  public takeDamage(damage: number, saturation: number = 0): void {
+    if (!this.active || this.stage !== BossStage.FIGHTING) return;
+
+    if (!this.isVulnerable()) {
+      ImpactEffects.sparks(this.scene, this.x, this.getBounds().top, { x: 0, y: -1 }, 0xcccccc, 3);
+      super.takeDamage(0, saturation);
+    } else {
+      super.takeDamage(damage, saturation);
+    }
+
+    if (this.active && this.stage === BossStage.FIGHTING) {
+      this.checkPhase();
+    }
+  }
+
+  /**
+   * Can health be taken off right now
+   */
+  public isVulnerable(): boolean {
+    if (this.stage !== BossStage.FIGHTING) return false;
+    return !this.getBossConfig().soggyToDamage || this.getIsSoggy();
+  }
+
+  /**
+   * Enter the furthest phase whose threshold has been crossed
+   */
+  private checkPhase(): void {
+    const health = this.getHealth() / this.getMaxHealth();
+    const saturation = this.getSaturation() / this.getMaxSaturation();
+
+    let next = this.phaseIndex;
+    for (let i = this.phaseIndex + 1; i < this.phases.length; i++) {
+      const phase = this.phases[i];
+      if ((phase.healthBelow !== undefined && health <= phase.healthBelow) ||
+        (phase.saturationAbove !== undefined && saturation >= phase.saturationAbove)) {
+        next = i;
+      }
+    }
+
+    if (next !== this.phaseIndex) {
+      this.enterPhase(next);
+    }
+  }
+
+  private enterPhase(index: number): void {
+    this.cancelAttack();
+    this.phaseIndex = index;
+    this.patternIndex = 0;
+
+    const phase = this.phases[index];
+    console.log(`Boss: '${this.getBossConfig().name}' entering phase '${phase.name}'`);
+    this.onPhaseChanged(phase);
+    this.emit(BossEvent.PHASE_CHANGED, this, phase, index);
+  }
+
+  /**
+   * Play the outro before going away
+   */
+  protected defeat(): void {
+    if (this.stage === BossStage.OUTRO) return;
+
+    this.stage = BossStage.OUTRO;
+    this.cancelAttack();
+    this.getStatusEffects().clearAll();
+    (this.body as Phaser.Physics.Arcade.Body).setVelocity(0, 0);
+    this.emit(BossEvent.OUTRO_STARTED, this);
+    this.playOutro(() => super.defeat());
+  }
+
+  public isDefeated(): boolean {
+    return this.stage === BossStage.OUTRO || super.isDefeated();
+  }
+
+  /**
+   * Too heavy to be yanked around
+   */
+  public pullToward(): void {
+    // Ignored
+  }
+
+  public dealsContactDamage(): boolean {
+    return this.stage === BossStage.FIGHTING && super.dealsContactDamage();
+  }
+
+  public getSpeed(): number {
+    return super.getSpeed() * (this.getPhase()?.speedMultiplier ?? 1);
+  }
+
+  protected hasAttacks(): boolean {
+    return Object.keys(this.getBossConfig().moves).length > 0;
+  }
+
+  protected getCurrentAttack(): EnemyAttackConfig | undefined {
+    const move = this.getCurrentMove();
+    return move ? this.getBossConfig().moves[move] : undefined;
+  }
+
+  /**
+   * Move to the next one in the pattern
+   * Subclasses overriding this must call super.onAttackEnd()
+   */
+  protected onAttackEnd(): void {
+    this.patternIndex++;
+  }
+
+  /**
+   * Id of the move being (or about to be) performed
+   */
+  public getCurrentMove(): string | null {
+    const pattern = this.getPhase()?.pattern;
+    if (!pattern || pattern.length === 0) return null;
+    return pattern[this.patternIndex % pattern.length];
+  }
+
+  public getPhase(): BossPhase | undefined {
+    return this.phases[this.phaseIndex];
+  }
+
+  public getPhaseIndex(): number {
+    return this.phaseIndex;
+  }
+
+  public getPhases(): BossPhase[] {
+    return this.phases;
+  }
+
+  public getStage(): BossStage {
+    return this.stage;
+  }
+
+  public getBossName(): string {
+    return this.getBossConfig().name;
+  }
+}
@@ -0,0 +1,139 @@
+import Phaser from 'phaser';
+import { EnemyAttackPhase } from '../Enemy';
+import { EnemyProjectile } from '../enemies/EnemyProjectile';
+import { EnemyStateId } from '../../systems/ai/EnemyStates';
+import { Boss, BossConfig } from './Boss';
+
+/**
+ * Kreef King - giant crayfish guarding the end of the Sea Point promenade
+ * Its shell shrugs off everything until it's soaked Soggy with Gatsby Sauce;
+ * only then does damage get through.
+ *
+ * Moves: 'claw' (short swipe), 'charge' (shell-first rush across the arena),
+ * 'spit' (spread of slow bubbles)
+ */
+export class KreefKing extends Boss {
+  public static readonly DEFAULTS: BossConfig = {
+    name: 'KREEF KING',
+    health: 300,
+    speed: 40,
+    damage: 12,
+    maxSaturation: 120,
+    soggyDuration: 360,
+    soggyDamageMultiplier: 0.75,
+    soggyReward: 15,
+    defeatReward: 100,
+    soggyToDamage: true,
+    width: 40,
+    height: 28,
+    tint: 0xdd3311,
+    drops: 'boss',
+    moves: {
+      claw: { damage: 18, range: 30, windupFrames: 30, activeFrames: 8, recoveryFrames: 30, cooldownFrames: 20 },
+      charge: { damage: 22, range: 220, windupFrames: 45, activeFrames: 50, recoveryFrames: 40, cooldownFrames: 30 },
+      spit: { damage: 10, range: 240, windupFrames: 30, activeFrames: 1, recoveryFrames: 30, cooldownFrames: 20 },
+    },
+    phases: [
+      { name: 'armoured', pattern: ['claw', 'charge'] },
+      { name: 'cracking', saturationAbove: 0.5, healthBelow: 0.8, pattern: ['spit', 'claw', 'charge'], speedMultiplier: 1.2 },
+      { name: 'enraged', healthBelow: 0.35, pattern: ['charge', 'spit', 'charge', 'claw'], speedMultiplier: 1.5 },
+    ],
+    ai: {
+      states: [EnemyStateId.IDLE, EnemyStateId.CHASE, EnemyStateId.ATTACK],
+      sightRange: 400,
+      loseSightFrames: 600,
+    },
+  };
+
+  private readonly CHARGE_SPEED = 220;
+  private readonly BUBBLE_SPEED = 110;
+  private readonly BUBBLE_SPREAD = 0.35; // Radians between bubbles
+  private readonly BUBBLE_COUNT = 3;
+
+  private lastTarget: { x: number; y: number } = { x: 0, y: 0 };
+  private projectiles: Set<EnemyProjectile> = new Set();
+
+  constructor(scene: Phaser.Scene, x: number, y: number, config: BossConfig) {
+    super(scene, x, y, config);
+
+    this.once(Phaser.GameObjects.Events.DESTROY, () => {
+      this.projectiles.forEach(projectile => projectile.destroy());
+      this.projectiles.clear();
+    });
+  }
+
+  public update(target: { x: number; y: number }): void {
+    this.lastTarget = { x: target.x, y: target.y };
+    super.update(target);
+
+    // A charge ends early against a wall
+    const body = this.body as Phaser.Physics.Arcade.Body | null;
+    if (this.isCharging() && body && (body.blocked.left || body.blocked.right)) {
+      this.scene.cameras.main.shake(150, 0.008);
+      body.setVelocityX(0);
+      this.cancelAttack();
+    }
+  }
+
+  /**
+   * Don't brake mid-charge
+   */
+  public stopMoving(rate?: number): void {
+    if (this.isCharging()) return;
+    super.stopMoving(rate);
+  }
+
+  protected onAttackActive(): void {
+    switch (this.getCurrentMove()) {
+      case 'charge':
+        (this.body as Phaser.Physics.Arcade.Body).setVelocityX((this.flipX ? -1 : 1) * this.CHARGE_SPEED);
+        break;
+
+      case 'spit':
+        this.spitBubbles();
+        break;
+    }
+  }
+
+  /**
+   * Claw: the default box in front; charge: the whole shell; spit: bubbles only
+   */
+  protected getAttackHitbox(): Phaser.Geom.Rectangle | null {
+    switch (this.getCurrentMove()) {
+      case 'charge':
+        return this.getBounds();
+      case 'spit':
+        return null;
+      default:
+        return super.getAttackHitbox();
+    }
+  }
+
+  public getProjectiles(): EnemyProjectile[] {
+    return Array.from(this.projectiles);
+  }
+
+  private spitBubbles(): void {
+    const top = this.getBounds().top + 6;
+    const aim = Phaser.Math.Angle.Between(this.x, top, this.lastTarget.x, this.lastTarget.y);
+    const first = aim - this.BUBBLE_SPREAD * (this.BUBBLE_COUNT - 1) / 2;
+
+    for (let i = 0; i < this.BUBBLE_COUNT; i++) {
+      const angle = first + i * this.BUBBLE_SPREAD;
+      const bubble = new EnemyProjectile(this.scene, this.x, top, {
+        damage: this.getAttackDamage(),
+        velocityX: Math.cos(angle) * this.BUBBLE_SPEED,
+        velocityY: Math.sin(angle) * this.BUBBLE_SPEED,
+        gravity: false,
+        lifetime: 150,
+        tint: 0xaaddff,
+      }, this.getWorldLayer());
+      this.projectiles.add(bubble);
+      bubble.once(Phaser.GameObjects.Events.DESTROY, () => this.projectiles.delete(bubble));
+    }
+  }
+
+  private isCharging(): boolean {
+    return this.getCurrentMove() === 'charge' && this.getAttackPhase() === EnemyAttackPhase.ACTIVE;
+  }
+}
@@ -0,0 +1,59 @@
+import Phaser from 'phaser';
+import { Enemy, EnemyConfig } from '../Enemy';
+import { EnemyStateId } from '../../systems/ai/EnemyStates';
+import { ImpactEffects } from '../../systems/weapons/ImpactEffects';
+
+/**
+ * Bruiser - regular at the promenade outdoor gym
+ * Slow and tough, shrugs off most of the whip's pull, and telegraphs a long
+ * ground slam that hits both sides of it
+ */
+export class Bruiser extends Enemy {
+  public static readonly DEFAULTS: EnemyConfig = {
+    health: 120,
+    speed: 35,
+    damage: 12,
+    maxSaturation: 180,
+    soggyReward: 12,
+    defeatReward: 30,
+    width: 24,
+    height: 28,
+    tint: 0x994422,
+    jumpVelocity: -220, // Short hops onto low platforms
+    drops: 'brute',
+    attack: { damage: 20, range: 28, windupFrames: 45, activeFrames: 8, recoveryFrames: 45, cooldownFrames: 60 },
+    ai: {
+      states: [EnemyStateId.PATROL, EnemyStateId.CHASE, EnemyStateId.ATTACK],
+      patrolDistance: 48,
+      sightRange: 140,
+    },
+  };
+
+  private readonly PULL_RESISTANCE = 0.25; // Fraction of pull speed that moves it
+  private readonly SLAM_HEIGHT = 12;
+
+  public pullToward(x: number, y: number, speed: number): void {
+    super.pullToward(x, y, speed * this.PULL_RESISTANCE);
+  }
+
+  protected onAttackActive(): void {
+    const bottom = this.getBounds().bottom;
+    ImpactEffects.burst(this.scene, this.x, bottom, 0xccaa88, 24);
+    ImpactEffects.sparks(this.scene, this.x, bottom, { x: 0, y: -1 }, 0xccaa88, 8);
+    this.scene.cameras.main.shake(120, 0.006);
+  }
+
+  /**
+   * Slam shockwave: a low strip either side of the bruiser along the ground
+   */
+  protected getAttackHitbox(): Phaser.Geom.Rectangle | null {
+    const range = this.getCurrentAttack()?.range ?? 0;
+    const bounds = this.getBounds();
+    return new Phaser.Geom.Rectangle(
+      bounds.left - range,
+      bounds.bottom - this.SLAM_HEIGHT,
+      bounds.width + range * 2,
+      this.SLAM_HEIGHT
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import Phaser from 'phaser';
+import { Enemy, EnemyConfig } from '../Enemy';
+import { Seagull } from './Seagull';
+import { SnoekThrower } from './SnoekThrower';
+import { Bruiser } from './Bruiser';
+import { KreefKing } from '../bosses/KreefKing';
+import { ObjectPropertySchema, ObjectPropertySpec } from '../../systems/levels/TiledObjectFactory';
+
+export type EnemyConstructor<T extends EnemyConfig = EnemyConfig> =
+  new (scene: Phaser.Scene, x: number, y: number, config: T) => Enemy;
+
+interface EnemyArchetype {
+  create: EnemyConstructor;
+  defaults: EnemyConfig;
+}
+
+/**
+ * Pair a class with its defaults - overrides only touch EnemyConfig fields,
+ * so subclass configs (e.g. BossConfig) keep their own shape
+ */
+function archetype<T extends EnemyConfig>(create: EnemyConstructor<T>, defaults: T): EnemyArchetype {
+  return { create: create as unknown as EnemyConstructor, defaults };
+}
+
+/**
+ * Tiled property -> where it lands in EnemyConfig
+ * Numbers unless listed in STRING_OVERRIDES or STRING_LIST_OVERRIDES
+ */
+const OVERRIDES: Record<string, (config: EnemyConfig, value: number) => void> = {
+  health: (c, v) => { c.health = v; },
+  speed: (c, v) => { c.speed = v; },
+  damage: (c, v) => { c.damage = v; },
+  maxSaturation: (c, v) => { c.maxSaturation = v; },
+  soggyDuration: (c, v) => { c.soggyDuration = v; },
+  soggyReward: (c, v) => { c.soggyReward = v; },
+  defeatReward: (c, v) => { c.defeatReward = v; },
+  attackDamage: (c, v) => { c.attack!.damage = v; },
+  attackRange: (c, v) => { c.attack!.range = v; },
+  attackCooldown: (c, v) => { c.attack!.cooldownFrames = v; },
+  sightRange: (c, v) => { c.ai = { ...c.ai, sightRange: v }; },
+  patrolDistance: (c, v) => { c.ai = { ...c.ai, patrolDistance: v }; },
+  idleFrames: (c, v) => { c.ai = { ...c.ai, idleFrames: v }; },
+  loseSightFrames: (c, v) => { c.ai = { ...c.ai, loseSightFrames: v }; },
+  jumpSpeed: (c, v) => { c.jumpVelocity = v > 0 ? -v : undefined; }, // Upward px/s, 0 = no jumping
+};
+
+/**
+ * Plain string properties, e.g. drops = "brute"
+ */
+const STRING_OVERRIDES: Record<string, (config: EnemyConfig, value: string) => void> = {
+  drops: (c, v) => { c.drops = v; },
+};
+
+/**
+ * Comma-separated string properties, e.g. states = "patrol,chase,attack"
+ */
+const STRING_LIST_OVERRIDES: Record<string, (config: EnemyConfig, value: string[]) => void> = {
+  states: (c, v) => { c.ai = { ...c.ai, states: v }; },
+};
+
+/**
+ * Overrides that must be above 0 (an enemy placed with 0 health starts dead)
+ */
+const POSITIVE_OVERRIDES = ['health'];
+
+/**
+ * Properties every Tiled object has that aren't overrides
+ */
+const IGNORED_PROPERTIES = ['type'];
+
+/**
+ * The overrides as a TiledObjectFactory schema, so values Tiled saved as strings are converted
+ */
+export const ENEMY_PROPERTIES: ObjectPropertySchema = Object.fromEntries<ObjectPropertySpec>([
+  ...Object.keys(OVERRIDES).map((name): [string, ObjectPropertySpec] => [name, { type: 'float' }]),
+  ...[...Object.keys(STRING_OVERRIDES), ...Object.keys(STRING_LIST_OVERRIDES)]
+    .map((name): [string, ObjectPropertySpec] => [name, { type: 'string' }]),
+]);
+
+/**
+ * EnemyArchetypes - Maps Tiled object types to enemy classes and their default stats
+ * Placed in the 'objects' layer as a point whose `type` is the archetype id; any
+ * other custom property overrides that instance's stats (e.g. health, sightRange)
+ *
+ * Custom archetypes register before the level starts:
+ *   EnemyArchetypes.register('hadeda', Hadeda, Hadeda.DEFAULTS);
+ */
+export class EnemyArchetypes {
+  private static archetypes: Map<string, EnemyArchetype> = new Map([
+    ['seagull', archetype(Seagull, Seagull.DEFAULTS)],
+    ['snoek-thrower', archetype(SnoekThrower, SnoekThrower.DEFAULTS)],
+    ['bruiser', archetype(Bruiser, Bruiser.DEFAULTS)],
+    ['kreef-king', archetype(KreefKing, KreefKing.DEFAULTS)],
+  ]);
+
+  /**
+   * Register an enemy class for a Tiled object type
+   */
+  public static register<T extends EnemyConfig>(type: string, create: EnemyConstructor<T>, defaults: T): void {
+    if (EnemyArchetypes.archetypes.has(type)) {
+      console.warn(`EnemyArchetypes: Replacing archetype '${type}'`);
+    }
+    EnemyArchetypes.archetypes.set(type, archetype(create, defaults));
+  }
+
+  /**
+   * Check if a Tiled object type is an enemy
+   */
+  public static has(type: string): boolean {
+    return EnemyArchetypes.archetypes.has(type);
+  }
+
+  /**
+   * Get registered archetype ids
+   */
+  public static getTypes(): string[] {
+    return Array.from(EnemyArchetypes.archetypes.keys());
+  }
+
+  /**
+   * Create an enemy standing on (x, y) - Tiled points mark the enemy's feet
+   * Invalid overrides are logged and ignored
+   */
+  public static spawn(
+    scene: Phaser.Scene,
+    type: string,
+    x: number,
+    y: number,
+    properties: Record<string, unknown> = {}
+  ): Enemy | null {
+    const archetype = EnemyArchetypes.archetypes.get(type);
+    if (!archetype) {
+      console.warn(`EnemyArchetypes: Unknown enemy type '${type}'`);
+      return null;
+    }
+
+    const config = EnemyArchetypes.resolveConfig(type, archetype.defaults, properties);
+    const height = config.height ?? 16;
+    return new archetype.create(scene, x, y - height / 2, config);
+  }
+
+  /**
+   * Copy the defaults and apply per-instance overrides
+   */
+  private static resolveConfig(
+    type: string,
+    defaults: EnemyConfig,
+    properties: Record<string, unknown>
+  ): EnemyConfig {
+    const config: EnemyConfig = {
+      ...defaults,
+      attack: defaults.attack ? { ...defaults.attack } : undefined,
+      ai: defaults.ai ? { ...defaults.ai, states: defaults.ai.states && [...defaults.ai.states] } : undefined,
+    };
+
+    Object.entries(properties).forEach(([name, value]) => {
+      if (value === undefined || IGNORED_PROPERTIES.includes(name)) return;
+
+      const numeric = OVERRIDES[name];
+      if (numeric) {
+        const positive = POSITIVE_OVERRIDES.includes(name);
+        if (typeof value !== 'number' || value < 0 || (positive && value === 0)) {
+          console.warn(`EnemyArchetypes: '${type}' property '${name}' must be a number ${positive ? '> 0' : '>= 0'} - ignored`);
+          return;
+        }
+        if (name.startsWith('attack') && !config.attack) {
+          console.warn(`EnemyArchetypes: '${type}' has no attack to apply '${name}' to - ignored`);
+          return;
+        }
+        numeric(config, value);
+        return;
+      }
+
+      const text = STRING_OVERRIDES[name];
+      if (text) {
+        if (typeof value !== 'string') {
+          console.warn(`EnemyArchetypes: '${type}' property '${name}' must be a string - ignored`);
+          return;
+        }
+        text(config, value);
+        return;
+      }
+
+      const list = STRING_LIST_OVERRIDES[name];
+      if (list) {
+        if (typeof value !== 'string') {
+          console.warn(`EnemyArchetypes: '${type}' property '${name}' must be a comma-separated string - ignored`);
+          return;
+        }
+        list(config, value.split(',').map(item => item.trim()).filter(item => item.length > 0));
+        return;
+      }
+
+      console.warn(`EnemyArchetypes: '${type}' has unknown property '${name}' - ignored`);
+    });
+
+    return config;
+  }
+}
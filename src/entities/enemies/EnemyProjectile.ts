@@ -0,0 +1,73 @@
+import Phaser from 'phaser';
+
+export interface EnemyProjectileConfig {
+  damage: number;
+  velocityX: number;
+  velocityY: number;
+  lifetime?: number; // Frames (default 180)
+  gravity?: boolean; // Arcs under world gravity (default true)
+  tint?: number;
+}
+
+/**
+ * Something an enemy throws - hurts the player on touch, breaks on the 'world' layer
+ * CombatManager checks it against the player via Enemy.getProjectiles()
+ */
+export class EnemyProjectile extends Phaser.Physics.Arcade.Sprite {
+  private readonly DEFAULT_LIFETIME = 180;
+
+  private damage: number;
+  private lifetimeFrames: number;
+  private worldLayer: Phaser.Tilemaps.TilemapLayer | null;
+
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    config: EnemyProjectileConfig,
+    worldLayer: Phaser.Tilemaps.TilemapLayer | null
+  ) {
+    // Create a simple placeholder texture
+    if (!scene.textures.exists('enemy-projectile-placeholder')) {
+      const graphics = scene.add.graphics();
+      graphics.fillStyle(0xffffff, 1);
+      graphics.fillRect(0, 0, 8, 4);
+      graphics.generateTexture('enemy-projectile-placeholder', 8, 4);
+      graphics.destroy();
+    }
+
+    super(scene, x, y, 'enemy-projectile-placeholder');
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.damage = config.damage;
+    this.lifetimeFrames = config.lifetime ?? this.DEFAULT_LIFETIME;
+    this.worldLayer = worldLayer;
+    this.setTint(config.tint ?? 0xcccccc);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    body.setAllowGravity(config.gravity ?? true);
+    body.setVelocity(config.velocityX, config.velocityY);
+  }
+
+  preUpdate(time: number, delta: number): void {
+    super.preUpdate(time, delta);
+
+    // Spin along the direction of travel
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    this.setRotation(Math.atan2(body.velocity.y, body.velocity.x));
+
+    this.lifetimeFrames--;
+    const tile = this.worldLayer?.getTileAtWorldXY(this.x, this.y);
+    if (this.lifetimeFrames <= 0 || (tile && tile.collides)) {
+      this.destroy();
+    }
+  }
+
+  /**
+   * Damage dealt to the player on touch
+   */
+  public getDamage(): number {
+    return this.damage;
+  }
+}
@@ -0,0 +1,92 @@
+import Phaser from 'phaser';
+import { Enemy, EnemyConfig, EnemyAttackPhase } from '../Enemy';
+import { EnemyStateId } from '../../systems/ai/EnemyStates';
+
+/**
+ * Seagull - circles above the promenade and dive-bombs the player for their chips
+ * Flies at its spawn height; the attack is a straight dive at where the player was
+ * when the windup ended, then it climbs back up. Stunned or Frozen gulls drop.
+ */
+export class Seagull extends Enemy {
+  public static readonly DEFAULTS: EnemyConfig = {
+    health: 20,
+    speed: 70,
+    damage: 8,
+    maxSaturation: 40,
+    soggyReward: 4,
+    defeatReward: 8,
+    width: 16,
+    height: 10,
+    tint: 0xf0f0f0,
+    flying: true,
+    attack: { range: 120, windupFrames: 24, activeFrames: 40, recoveryFrames: 30, cooldownFrames: 90 },
+    ai: {
+      states: [EnemyStateId.PATROL, EnemyStateId.CHASE, EnemyStateId.ATTACK, EnemyStateId.FLEE],
+      sightRange: 200,
+      patrolDistance: 96,
+    },
+  };
+
+  private readonly DIVE_SPEED = 200;
+  private readonly CLIMB_SPEED = 60;
+
+  private cruiseY: number;
+  private lastTarget: { x: number; y: number } = { x: 0, y: 0 };
+
+  constructor(scene: Phaser.Scene, x: number, y: number, config: EnemyConfig) {
+    super(scene, x, y, config);
+    this.cruiseY = y;
+  }
+
+  public update(target: { x: number; y: number }): void {
+    if (!this.body) return;
+
+    this.lastTarget = { x: target.x, y: target.y };
+    super.update(target);
+
+    // Knocked out of the sky while it can't act
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    const canAct = this.getStatusEffects().canAct();
+    body.setAllowGravity(!canAct);
+
+    // Climb back to cruising height unless diving or being pulled
+    if (canAct && this.getAttackPhase() !== EnemyAttackPhase.ACTIVE && !this.isBeingPulled()) {
+      const dy = this.cruiseY - this.y;
+      body.setVelocityY(Math.abs(dy) < 2 ? 0 : Math.sign(dy) * this.CLIMB_SPEED);
+    }
+  }
+
+  /**
+   * Dive when the player is below and within range
+   */
+  public shouldStartAttack(target: { x: number; y: number }): boolean {
+    const range = this.getCurrentAttack()?.range ?? 0;
+    return this.isAttackReady() &&
+      target.y > this.y &&
+      Phaser.Math.Distance.Between(this.x, this.y, target.x, target.y) <= range;
+  }
+
+  /**
+   * Don't brake mid-dive
+   */
+  public stopMoving(rate?: number): void {
+    if (this.getAttackPhase() === EnemyAttackPhase.ACTIVE) return;
+    super.stopMoving(rate);
+  }
+
+  protected onAttackActive(): void {
+    const angle = Phaser.Math.Angle.Between(this.x, this.y, this.lastTarget.x, this.lastTarget.y);
+    this.setFlipX(this.lastTarget.x < this.x);
+    (this.body as Phaser.Physics.Arcade.Body).setVelocity(
+      Math.cos(angle) * this.DIVE_SPEED,
+      Math.sin(angle) * this.DIVE_SPEED
+    );
+  }
+
+  /**
+   * The whole gull is the hitbox while diving
+   */
+  protected getAttackHitbox(): Phaser.Geom.Rectangle | null {
+    return this.getBounds();
+  }
+}
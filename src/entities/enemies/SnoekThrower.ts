@@ -0,0 +1,94 @@
+import Phaser from 'phaser';
+import { Enemy, EnemyConfig } from '../Enemy';
+import { EnemyProjectile } from './EnemyProjectile';
+import { EnemyStateId } from '../../systems/ai/EnemyStates';
+import { GRAVITY } from '../../game/constants';
+
+/**
+ * Snoek Thrower - harbour vendor who lobs fish from a distance
+ * Keeps its feet planted and throws in an arc that lands on the player's last position
+ */
+export class SnoekThrower extends Enemy {
+  public static readonly DEFAULTS: EnemyConfig = {
+    health: 35,
+    speed: 45,
+    damage: 5,
+    maxSaturation: 60,
+    soggyReward: 6,
+    defeatReward: 12,
+    width: 14,
+    height: 20,
+    tint: 0x3388ff,
+    jumpVelocity: -260,
+    drops: 'ranged',
+    attack: { damage: 10, range: 150, windupFrames: 30, activeFrames: 1, recoveryFrames: 30, cooldownFrames: 100 },
+    ai: {
+      states: [EnemyStateId.IDLE, EnemyStateId.CHASE, EnemyStateId.ATTACK, EnemyStateId.FLEE],
+      sightRange: 180,
+    },
+  };
+
+  private readonly THROW_SPEED_X = 140;
+  private readonly MIN_THROW_FRAMES = 20; // Flight time for close throws, so they still arc
+  private readonly MAX_THROW_HEIGHT = 80;  // Won't lob at targets much higher than this
+
+  private lastTarget: { x: number; y: number } = { x: 0, y: 0 };
+  private projectiles: Set<EnemyProjectile> = new Set();
+
+  constructor(scene: Phaser.Scene, x: number, y: number, config: EnemyConfig) {
+    super(scene, x, y, config);
+
+    // Thrown fish don't outlive the thrower
+    this.once(Phaser.GameObjects.Events.DESTROY, () => {
+      this.projectiles.forEach(projectile => projectile.destroy());
+      this.projectiles.clear();
+    });
+  }
+
+  public update(target: { x: number; y: number }): void {
+    this.lastTarget = { x: target.x, y: target.y };
+    super.update(target);
+  }
+
+  /**
+   * Throw at anything in range that isn't too far above
+   */
+  public shouldStartAttack(target: { x: number; y: number }): boolean {
+    const range = this.getCurrentAttack()?.range ?? 0;
+    return this.isAttackReady() &&
+      Math.abs(target.x - this.x) <= range &&
+      this.y - target.y <= this.MAX_THROW_HEIGHT;
+  }
+
+  /**
+   * Lob a snoek: fixed horizontal speed, vertical speed solved so it lands on the target
+   */
+  protected onAttackActive(): void {
+    const startY = this.getBounds().top;
+    const dx = this.lastTarget.x - this.x;
+    const dy = this.lastTarget.y - startY;
+    const seconds = Math.max(Math.abs(dx) / this.THROW_SPEED_X, this.MIN_THROW_FRAMES / 60);
+    const velocityX = dx / seconds;
+    const velocityY = dy / seconds - 0.5 * GRAVITY * seconds;
+
+    const projectile = new EnemyProjectile(this.scene, this.x, startY, {
+      damage: this.getAttackDamage(),
+      velocityX,
+      velocityY,
+      tint: 0x88aacc,
+    }, this.getWorldLayer());
+    this.projectiles.add(projectile);
+    projectile.once(Phaser.GameObjects.Events.DESTROY, () => this.projectiles.delete(projectile));
+  }
+
+  /**
+   * No melee hitbox - the projectile does the damage
+   */
+  protected getAttackHitbox(): Phaser.Geom.Rectangle | null {
+    return null;
+  }
+
+  public getProjectiles(): EnemyProjectile[] {
+    return Array.from(this.projectiles);
+  }
+}
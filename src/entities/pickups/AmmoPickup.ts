@@ -0,0 +1,48 @@
+import Phaser from 'phaser';
+import { Pickup, PickupKind, PickupSpec } from './Pickup';
+import { Player } from '../Player';
+import { WeaponManager } from '../../systems/WeaponManager';
+
+/**
+ * Ammo pickup - adds reserve rounds to a magazine weapon
+ * Placed in Tiled as type 'ammo-pickup' with 'weapon' (definition id) and 'amount' properties
+ * Stays in the world if the reserve is already full
+ */
+export class AmmoPickup extends Pickup {
+  public readonly kind = PickupKind.AMMO;
+  public static readonly DEFAULT_AMOUNT = 6;
+
+  private weaponId: string;
+  private amount: number;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, weaponId?: string, amount?: number) {
+    super(scene, x, y, 'ammo-pickup-placeholder', 0xffcc00);
+    this.weaponId = weaponId ?? '';
+    this.amount = amount ?? AmmoPickup.DEFAULT_AMOUNT;
+  }
+
+  public configure(spec: PickupSpec): void {
+    this.weaponId = spec.weapon ?? '';
+    this.amount = spec.amount ?? AmmoPickup.DEFAULT_AMOUNT;
+  }
+
+  protected canCollect(_player: Player): boolean {
+    const weaponManager = this.scene.registry.get('weaponManager') as WeaponManager | undefined;
+    return !!weaponManager?.getResource(this.weaponId)?.canAddAmmo();
+  }
+
+  protected onCollect(_player: Player): boolean {
+    const weaponManager = this.scene.registry.get('weaponManager') as WeaponManager | undefined;
+    if (!weaponManager) return false;
+
+    // TODO: Play pickup sound
+    return weaponManager.addAmmo(this.weaponId, this.amount);
+  }
+
+  /**
+   * Get the weapon definition id this ammo is for
+   */
+  public getWeaponId(): string {
+    return this.weaponId;
+  }
+}
@@ -0,0 +1,38 @@
+import Phaser from 'phaser';
+import { Pickup, PickupKind, PickupSpec } from './Pickup';
+import { Player } from '../Player';
+import { UpgradeManager } from '../../systems/UpgradeManager';
+
+/**
+ * Currency pickup - a sachet of Gatsby Sauce to spend on upgrades
+ * Placed in Tiled as type 'currency-pickup' with an optional 'amount' property
+ */
+export class CurrencyPickup extends Pickup {
+  public readonly kind = PickupKind.CURRENCY;
+  public static readonly DEFAULT_AMOUNT = 5;
+
+  private amount: number;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, amount?: number) {
+    super(scene, x, y, 'currency-pickup-placeholder', 0xff8800);
+    this.amount = amount ?? CurrencyPickup.DEFAULT_AMOUNT;
+    this.magnetRange = 64; // Sauce comes to you from further away
+  }
+
+  public configure(spec: PickupSpec): void {
+    this.amount = spec.amount ?? CurrencyPickup.DEFAULT_AMOUNT;
+  }
+
+  protected onCollect(_player: Player): boolean {
+    const upgradeManager = this.scene.registry.get('upgradeManager') as UpgradeManager | undefined;
+    if (!upgradeManager) return false;
+
+    // TODO: Play pickup sound
+    upgradeManager.addCurrency(this.amount);
+    return true;
+  }
+
+  public getAmount(): number {
+    return this.amount;
+  }
+}
@@ -0,0 +1,40 @@
+import Phaser from 'phaser';
+import { Pickup, PickupKind, PickupSpec } from './Pickup';
+import { Player } from '../Player';
+
+/**
+ * Health pickup - a parcel of slap chips that restores health
+ * Placed in Tiled as type 'health-pickup' with an optional 'amount' property
+ * Stays in the world while the player is at full health
+ */
+export class HealthPickup extends Pickup {
+  public readonly kind = PickupKind.HEALTH;
+  public static readonly DEFAULT_AMOUNT = 20;
+
+  private amount: number;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, amount?: number) {
+    super(scene, x, y, 'health-pickup-placeholder', 0x33dd55);
+    this.amount = amount ?? HealthPickup.DEFAULT_AMOUNT;
+  }
+
+  public configure(spec: PickupSpec): void {
+    this.amount = spec.amount ?? HealthPickup.DEFAULT_AMOUNT;
+  }
+
+  protected canCollect(player: Player): boolean {
+    return !player.isDead() && player.getHealth() < player.getMaxHealth();
+  }
+
+  protected onCollect(player: Player): boolean {
+    if (!this.canCollect(player)) return false;
+
+    // TODO: Play pickup sound
+    player.heal(this.amount);
+    return true;
+  }
+
+  public getAmount(): number {
+    return this.amount;
+  }
+}
@@ -0,0 +1,213 @@
+import Phaser from 'phaser';
+import { Player } from '../Player';
+
+/**
+ * Pickup kinds - Tiled objects use '<kind>-pickup' as their type
+ */
+export enum PickupKind {
+  HEALTH = 'health',
+  CURRENCY = 'currency',
+  AMMO = 'ammo',
+  WEAPON = 'weapon',
+}
+
+/**
+ * What a pickup gives - used by drop tables and Tiled placement
+ */
+export interface PickupSpec {
+  kind: PickupKind;
+  amount?: number; // Health/currency/ammo (default per kind)
+  weapon?: string; // Weapon definition id (ammo and weapon pickups)
+}
+
+/**
+ * Base class for collectible pickups
+ * Floats in place (no gravity) and is collected on overlap with the Player.
+ * Poolable: spawn() (re)places it, and it deactivates when collected or when its
+ * lifetime runs out - the PickupManager releases or destroys it from there.
+ */
+export abstract class Pickup extends Phaser.Physics.Arcade.Sprite {
+  public abstract readonly kind: PickupKind;
+
+  private readonly BLINK_FRAMES = 120;   // Blinks for the last 2 seconds before despawning
+  private readonly MAGNET_SPEED = 200;
+  private readonly POP_HEIGHT = 14;
+  private readonly POP_SPREAD = 14;
+
+  private collected: boolean = false;
+  private lifetime: number | null = null; // Frames left, null = stays until collected
+  private magnetTarget: Player | null = null;
+  private magnetized: boolean = false;
+  protected magnetRange: number = 48;     // 0 = never pulled toward the player
+
+  constructor(scene: Phaser.Scene, x: number, y: number, texture: string, color: number) {
+    // Create a simple placeholder texture (once per pickup kind)
+    if (!scene.textures.exists(texture)) {
+      const graphics = scene.add.graphics();
+      graphics.fillStyle(color, 1);
+      graphics.fillRect(0, 0, 10, 10);
+      graphics.lineStyle(1, 0xffffff, 1);
+      graphics.strokeRect(0, 0, 10, 10);
+      graphics.generateTexture(texture, 10, 10);
+      graphics.destroy();
+    }
+
+    super(scene, x, y, texture);
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    if (this.body) {
+      const body = this.body as Phaser.Physics.Arcade.Body;
+      body.setAllowGravity(false);
+      body.setImmovable(true);
+    }
+
+    this.startBob();
+  }
+
+  /**
+   * Set what this pickup gives (pooled pickups are configured before each spawn)
+   */
+  public abstract configure(spec: PickupSpec): void;
+
+  /**
+   * Place (or re-place a pooled) pickup in the world
+   * lifetime: frames before it despawns (null = never); pop: burst out of a defeated enemy
+   */
+  public spawn(x: number, y: number, lifetime: number | null = null, pop: boolean = false): void {
+    this.scene.tweens.killTweensOf(this);
+    this.collected = false;
+    this.magnetized = false;
+    this.lifetime = lifetime;
+
+    this.setPosition(x, y);
+    this.setActive(true);
+    this.setVisible(true);
+    this.setAlpha(1);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    body.enable = true;
+    body.reset(x, y);
+
+    if (pop) {
+      this.scene.tweens.add({
+        targets: this,
+        x: x + Phaser.Math.Between(-this.POP_SPREAD, this.POP_SPREAD),
+        y: y - this.POP_HEIGHT,
+        duration: 250,
+        ease: 'Quad.easeOut',
+        onComplete: () => this.startBob(),
+      });
+    } else {
+      this.startBob();
+    }
+  }
+
+  /**
+   * Gentle bob so pickups read as collectible
+   */
+  private startBob(): void {
+    this.scene.tweens.add({
+      targets: this,
+      y: this.y - 3,
+      duration: 600,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut',
+    });
+  }
+
+  /**
+   * Fly toward this player once they come within magnetRange (and can use it)
+   */
+  public setMagnetTarget(target: Player | null): void {
+    this.magnetTarget = target;
+  }
+
+  preUpdate(time: number, delta: number): void {
+    super.preUpdate(time, delta);
+    if (!this.active || this.collected) return;
+
+    this.updateMagnet();
+
+    if (this.lifetime !== null && !this.magnetized) {
+      this.lifetime--;
+      if (this.lifetime <= 0) {
+        this.deactivate();
+      } else if (this.lifetime < this.BLINK_FRAMES) {
+        this.setAlpha(Math.floor(this.lifetime / 6) % 2 === 0 ? 1 : 0.3);
+      }
+    }
+  }
+
+  private updateMagnet(): void {
+    if (!this.magnetTarget || this.magnetRange <= 0) return;
+    if (!this.canCollect(this.magnetTarget)) {
+      if (this.magnetized) this.stopMagnet();
+      return;
+    }
+
+    const distance = Phaser.Math.Distance.Between(this.x, this.y, this.magnetTarget.x, this.magnetTarget.y);
+    if (!this.magnetized && distance > this.magnetRange) return;
+
+    // Once pulled it keeps coming, and stops despawning
+    if (!this.magnetized) {
+      this.magnetized = true;
+      this.setAlpha(1);
+      this.scene.tweens.killTweensOf(this);
+    }
+
+    const angle = Phaser.Math.Angle.Between(this.x, this.y, this.magnetTarget.x, this.magnetTarget.y);
+    (this.body as Phaser.Physics.Arcade.Body).setVelocity(
+      Math.cos(angle) * this.MAGNET_SPEED,
+      Math.sin(angle) * this.MAGNET_SPEED
+    );
+  }
+
+  /**
+   * Dropped by the magnet (e.g. health filled up on the way) - settle where it is
+   */
+  private stopMagnet(): void {
+    this.magnetized = false;
+    (this.body as Phaser.Physics.Arcade.Body).setVelocity(0, 0);
+    this.startBob();
+  }
+
+  /**
+   * Would collecting do anything right now - the magnet ignores the player otherwise
+   */
+  protected canCollect(_player: Player): boolean {
+    return true;
+  }
+
+  /**
+   * Collect this pickup (called on overlap with the Player)
+   */
+  public collect(player: Player): void {
+    if (this.collected || !this.active) return;
+
+    if (!this.onCollect(player)) return;
+
+    this.collected = true;
+    this.deactivate();
+  }
+
+  /**
+   * Take it out of the world (collected or despawned)
+   */
+  private deactivate(): void {
+    this.scene.tweens.killTweensOf(this);
+    this.setActive(false);
+    this.setVisible(false);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    body.setVelocity(0, 0);
+    body.enable = false;
+  }
+
+  /**
+   * Pickup-specific effect - return false to leave the pickup in the world
+   */
+  protected abstract onCollect(player: Player): boolean;
+}
@@ -0,0 +1,44 @@
+import Phaser from 'phaser';
+import { Pickup, PickupKind, PickupSpec } from './Pickup';
+import { Player } from '../Player';
+import { WeaponManager } from '../../systems/WeaponManager';
+
+/**
+ * Weapon pickup - unlocks a weapon in the WeaponManager inventory
+ * Placed in Tiled as type 'weapon-pickup' with a 'weapon' property (definition id)
+ */
+export class WeaponPickup extends Pickup {
+  public readonly kind = PickupKind.WEAPON;
+  private weaponId: string;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, weaponId?: string) {
+    super(scene, x, y, 'weapon-pickup-placeholder', 0x00ccff);
+    this.weaponId = weaponId ?? '';
+  }
+
+  public configure(spec: PickupSpec): void {
+    this.weaponId = spec.weapon ?? '';
+  }
+
+  protected canCollect(_player: Player): boolean {
+    const weaponManager = this.scene.registry.get('weaponManager') as WeaponManager | undefined;
+    return !!weaponManager && !weaponManager.isUnlocked(this.weaponId);
+  }
+
+  protected onCollect(_player: Player): boolean {
+    const weaponManager = this.scene.registry.get('weaponManager') as WeaponManager | undefined;
+    if (!weaponManager) return false;
+
+    weaponManager.unlockWeapon(this.weaponId);
+
+    // TODO: Play pickup sound
+    return true;
+  }
+
+  /**
+   * Get the weapon definition id this pickup unlocks
+   */
+  public getWeaponId(): string {
+    return this.weaponId;
+  }
+}
@@ -3,7 +3,9 @@ import { BASE_WIDTH, BASE_HEIGHT, GRAVITY } from './constants';
 import { BootScene } from '../scenes/BootScene';
 import { PreloadScene } from '../scenes/PreloadScene';
 import { MainMenuScene } from '../scenes/MainMenuScene';
-import { PromenadeScene } from '../scenes/PromenadeScene';
+import { LevelSelectScene } from '../scenes/LevelSelectScene';
+import { LevelScene } from '../scenes/LevelScene';
+import { GameOverScene } from '../scenes/GameOverScene';
 
 export const gameConfig: Phaser.Types.Core.GameConfig = {
   type: Phaser.WEBGL,
@@ -31,7 +33,7 @@ export const gameConfig: Phaser.Types.Core.GameConfig = {
       debug: false,
     },
   },
-  scene: [BootScene, PreloadScene, MainMenuScene, PromenadeScene],
+  scene: [BootScene, PreloadScene, MainMenuScene, LevelSelectScene, LevelScene, GameOverScene],
   fps: {
     target: 60,
     forceSetTimeOut: false,
@@ -7,6 +7,24 @@ export const GRAVITY = 600;
 export const PLAYER_SPEED = 100;
 export const PLAYER_JUMP_VELOCITY = -300;
 
+// Player health constants
+export const PLAYER_MAX_HEALTH = 100;
+export const PLAYER_STARTING_LIVES = 3;
+export const PLAYER_CONTINUES = 2;          // Game over screen offers this many continues
+export const PLAYER_RESPAWN_DELAY_MS = 1200; // Death animation plays before respawning
+export const PLAYER_INVULNERABLE_FRAMES = 60;  // I-frames after a hit (and after respawning)
+export const PLAYER_HITSTUN_FRAMES = 15;       // No control while knocked back
+export const PLAYER_KNOCKBACK_SPEED = 160;     // Horizontal push away from the damage source
+export const PLAYER_KNOCKBACK_LIFT = -140;     // Upward pop on knockback
+
+// Grapple constants (Calamari Whip)
+export const ROPE_MIN_LENGTH = 24;           // Shortest the rope reels in to
+export const ROPE_REEL_SPEED = 1;            // Pixels reeled in per frame while swinging
+export const ROPE_SWING_ACCELERATION = 6;    // Horizontal pump per frame of input
+export const ROPE_JUMP_OFF_VELOCITY = -220;  // Extra upward boost when jumping off
+export const GRAPPLE_PULL_SPEED = 260;       // Zip speed toward a low/level anchor
+export const GRAPPLE_ARRIVE_DISTANCE = 12;    // Pull ends this close to the anchor
+
 // Game feel constants
 export const COYOTE_TIME_FRAMES = 6;
 export const INPUT_BUFFER_FRAMES = 6; // 100ms at 60fps (matches coyote time)
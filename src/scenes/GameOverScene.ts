@@ -0,0 +1,107 @@
+import Phaser from 'phaser';
+import { BASE_WIDTH, BASE_HEIGHT } from '../game/constants';
+import { InputMapper, GameAction } from '../systems/InputMapper';
+import { LivesManager } from '../systems/LivesManager';
+import { RunState } from '../systems/levels/RunState';
+
+/**
+ * Data passed when starting the GameOverScene
+ */
+export interface GameOverData {
+  levelKey: string;    // Scene to restart on continue
+  levelData?: object;  // Data it was started with (e.g. the level id)
+}
+
+/**
+ * GameOverScene - Out of lives
+ * Offers a continue (refills lives and restarts the level) while any are left,
+ * otherwise returns to the main menu with a fresh run
+ */
+export class GameOverScene extends Phaser.Scene {
+  private inputMapper!: InputMapper;
+  private livesManager!: LivesManager;
+  private levelKey: string = 'LevelScene';
+  private levelData?: object;
+  private promptText!: Phaser.GameObjects.Text;
+  private chosen: boolean = false; // Tap and jump can both land in one frame
+
+  constructor() {
+    super({ key: 'GameOverScene' });
+  }
+
+  init(data: GameOverData): void {
+    this.levelKey = data?.levelKey ?? 'LevelScene';
+    this.levelData = data?.levelData;
+    this.chosen = false;
+  }
+
+  create(): void {
+    // Get systems from registry
+    this.inputMapper = this.registry.get('inputMapper') as InputMapper;
+    this.livesManager = this.registry.get('livesManager') as LivesManager;
+
+    // IMPORTANT: Set the scene so InputMapper listens to THIS scene's keyboard
+    this.inputMapper.setScene(this);
+
+    const title = this.add.text(BASE_WIDTH / 2, BASE_HEIGHT / 3, 'GAME OVER', {
+      fontFamily: 'Arial Black',
+      fontSize: '32px',
+      color: '#ff3333',
+      stroke: '#000000',
+      strokeThickness: 6,
+    });
+    title.setOrigin(0.5);
+
+    const continues = this.livesManager ? this.livesManager.getContinues() : 0;
+    const prompt = continues > 0
+      ? `PRESS SPACE TO CONTINUE (${continues} LEFT)`
+      : 'PRESS SPACE FOR MAIN MENU';
+
+    this.promptText = this.add.text(BASE_WIDTH / 2, BASE_HEIGHT / 2, prompt, {
+      fontFamily: 'Arial',
+      fontSize: '16px',
+      color: '#ffffff',
+    });
+    this.promptText.setOrigin(0.5);
+    this.promptText.setInteractive({ useHandCursor: true });
+    this.promptText.on('pointerdown', () => this.choose());
+
+    // Add blinking effect to prompt
+    this.tweens.add({
+      targets: this.promptText,
+      alpha: 0.3,
+      duration: 800,
+      yoyo: true,
+      repeat: -1,
+    });
+
+    console.log('GameOverScene: Ready');
+  }
+
+  update(): void {
+    if (!this.inputMapper) return;
+
+    this.inputMapper.update();
+
+    if (this.inputMapper.isActionJustPressed(GameAction.JUMP)) {
+      this.choose();
+    }
+  }
+
+  private choose(): void {
+    if (this.chosen) return;
+    this.chosen = true;
+
+    this.tweens.killTweensOf(this.promptText);
+
+    if (this.livesManager?.useContinue()) {
+      console.log(`GameOverScene: Continuing ${this.levelKey}...`);
+      this.scene.start(this.levelKey, this.levelData);
+      return;
+    }
+
+    // Out of continues - the run is over, start again from the menu
+    RunState.reset(this.registry);
+    this.scene.start('MainMenuScene');
+  }
+}
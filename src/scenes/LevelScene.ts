@@ -0,0 +1,674 @@
+import Phaser from 'phaser';
+import { ENABLE_SCENE_SWITCHER, PLAYER_RESPAWN_DELAY_MS } from '../game/constants';
+import { Player, PlayerEvent } from '../entities/Player';
+import { Checkpoint } from '../entities/Checkpoint';
+import { Enemy, EnemyEvent } from '../entities/Enemy';
+import { EnemyArchetypes, ENEMY_PROPERTIES } from '../entities/enemies/EnemyArchetypes';
+import { EnemySpawner } from '../entities/EnemySpawner';
+import { EncounterZone } from '../entities/EncounterZone';
+import { LevelExit } from '../entities/LevelExit';
+import { Prop, PROP_PROPERTIES, PropProperties } from '../entities/Prop';
+import { Boss } from '../entities/bosses/Boss';
+import { SceneSwitcher } from '../systems/SceneSwitcher';
+import { WeaponManager } from '../systems/WeaponManager';
+import { StatusEffectManager } from '../systems/StatusEffectManager';
+import { CombatManager } from '../systems/CombatManager';
+import { EncounterManager } from '../systems/EncounterManager';
+import { Navigator, NavEvent } from '../systems/ai/Navigator';
+import { WaveScript } from '../systems/encounters/WaveScript';
+import { PickupKind } from '../entities/pickups/Pickup';
+import { PickupManager } from '../systems/PickupManager';
+import { LevelDefinition, LevelManifest } from '../systems/levels/LevelManifest';
+import { TiledLevelLoader } from '../systems/levels/TiledLevelLoader';
+import { TiledObjectFactory } from '../systems/levels/TiledObjectFactory';
+import { LevelProgress } from '../systems/levels/LevelProgress';
+import { PlayerState } from '../systems/levels/PlayerState';
+import { Hazard } from '../entities/Hazard';
+import { StatusEffectFactory } from '../systems/status/StatusEffectFactory';
+import { WeaponHud } from '../systems/hud/WeaponHud';
+import { PlayerHud } from '../systems/hud/PlayerHud';
+import { EncounterHud } from '../systems/hud/EncounterHud';
+import { BossHud } from '../systems/hud/BossHud';
+import { LivesManager } from '../systems/LivesManager';
+import { UpgradeMenu } from '../systems/hud/UpgradeMenu';
+import { UpgradeManager } from '../systems/UpgradeManager';
+import { InputMapper, GameAction } from '../systems/InputMapper';
+import { FullscreenManager } from '../systems/FullscreenManager';
+
+/**
+ * Data passed when starting the LevelScene
+ */
+export interface LevelSceneData {
+  levelId: string;  // Entry in the level manifest (default: the first level)
+  spawnId?: string; // Name of the player-spawn to start at (default: the map's first)
+}
+
+/**
+ * LevelScene - plays any level from the level manifest
+ * Map, tilesets and image layers are loaded from the level's Tiled JSON in preload;
+ * the object layers place the player, pickups, enemies, encounters, bosses and exits.
+ */
+export class LevelScene extends Phaser.Scene {
+  private readonly TRAVEL_FADE_MS = 400;
+
+  private inputMapper!: InputMapper;
+  private weaponManager!: WeaponManager;
+  private upgradeManager!: UpgradeManager;
+  private livesManager!: LivesManager;
+  private levelProgress!: LevelProgress;
+  private upgradeMenu!: UpgradeMenu;
+  private statusEffectManager!: StatusEffectManager;
+  private combatManager!: CombatManager;
+  private encounterManager!: EncounterManager;
+  private navigator: Navigator | null = null;
+  private fullscreenManager!: FullscreenManager;
+  private player!: Player;
+  private platformsLayer: Phaser.Tilemaps.TilemapLayer | null = null;
+  private pickupManager!: PickupManager;
+  private hazards!: Phaser.Physics.Arcade.StaticGroup;
+  private checkpoints!: Phaser.Physics.Arcade.StaticGroup;
+  private encounterZones!: Phaser.Physics.Arcade.StaticGroup;
+  private exits!: Phaser.Physics.Arcade.StaticGroup;
+  private solidProps: Prop[] = []; // Static and dynamic props things bump into
+
+  // Tiled map
+  private level!: LevelDefinition;
+  private map!: Phaser.Tilemaps.Tilemap;
+  private objects: Phaser.Types.Tilemaps.TiledObject[] = [];
+
+  // Spawn points from map (loaded from JSON) - the first, or the one named by spawnId
+  private spawnPoint: { x: number; y: number } | null = null;
+  private spawnPoints: Map<string, { x: number; y: number }> = new Map();
+  private spawnId?: string;
+
+  // Set once the player heads through an exit or door
+  private travelling: boolean = false;
+
+  // Where the player comes back after dying (spawn point or last checkpoint)
+  private respawnPoint: { x: number; y: number } = { x: 36, y: 208 };
+
+  // Level dimensions (derived from map)
+  private levelWidth: number = 0;
+  private levelHeight: number = 0;
+
+  constructor() {
+    super({ key: 'LevelScene' });
+  }
+
+  init(data: LevelSceneData): void {
+    const level = LevelManifest.get(data?.levelId) ?? LevelManifest.getFirst();
+    if (!level) {
+      throw new Error('LevelScene: The level manifest has no levels');
+    }
+    if (level.id !== data?.levelId) {
+      console.warn(`LevelScene: Unknown level '${data?.levelId}' - playing '${level.id}'`);
+    }
+
+    this.level = level;
+    this.objects = [];
+    this.spawnPoint = null;
+    this.spawnPoints = new Map();
+    this.spawnId = data?.spawnId;
+    this.platformsLayer = null;
+    this.solidProps = [];
+    this.travelling = false;
+  }
+
+  preload(): void {
+    TiledLevelLoader.preload(this, this.level);
+  }
+
+  create(): void {
+    console.log(`LevelScene: Starting ${this.level.name}...`);
+
+    // Get systems from registry
+    this.inputMapper = this.registry.get('inputMapper') as InputMapper;
+    this.fullscreenManager = this.registry.get('fullscreenManager') as FullscreenManager;
+
+    // Currency and purchased upgrades persist across scenes (until the run ends - see RunState)
+    this.upgradeManager = this.registry.get('upgradeManager') as UpgradeManager | undefined
+      ?? new UpgradeManager(this);
+    this.registry.set('upgradeManager', this.upgradeManager);
+
+    // Lives and continues persist across scenes (until the run ends)
+    this.livesManager = this.registry.get('livesManager') as LivesManager | undefined
+      ?? new LivesManager();
+    this.registry.set('livesManager', this.livesManager);
+
+    // Completed levels persist across scenes (until the run ends)
+    this.levelProgress = this.registry.get('levelProgress') as LevelProgress | undefined
+      ?? new LevelProgress();
+    this.registry.set('levelProgress', this.levelProgress);
+
+    // Weapon inventory persists across scenes (until the run ends) - reuse it if it exists
+    const existingWeaponManager = this.registry.get('weaponManager') as WeaponManager | undefined;
+    if (existingWeaponManager) {
+      this.weaponManager = existingWeaponManager;
+      this.weaponManager.setScene(this);
+    } else {
+      this.weaponManager = new WeaponManager(this);
+      this.weaponManager.setUpgradeManager(this.upgradeManager);
+    }
+
+    // Initialize scene-specific systems
+    this.statusEffectManager = new StatusEffectManager(this);
+    this.combatManager = new CombatManager(this);
+    this.combatManager.setWeaponManager(this.weaponManager);
+    this.combatManager.setUpgradeManager(this.upgradeManager);
+    this.registry.set('weaponManager', this.weaponManager);
+    this.registry.set('statusEffectManager', this.statusEffectManager);
+    this.registry.set('combatManager', this.combatManager);
+
+    // Encounter zones spawn scripted waves through spawnEnemy
+    this.encounterManager = new EncounterManager(this, this.spawnEnemy.bind(this));
+
+    // Set the scene for InputMapper
+    this.inputMapper.setScene(this);
+
+    // Add fullscreen button
+    if (this.fullscreenManager) {
+      this.fullscreenManager.createFullscreenButton(this);
+    }
+
+    // Collectibles placed by the object layer or dropped by enemies
+    this.pickupManager = new PickupManager(this);
+    this.hazards = this.physics.add.staticGroup();
+    this.checkpoints = this.physics.add.staticGroup();
+    this.encounterZones = this.physics.add.staticGroup();
+    this.exits = this.physics.add.staticGroup();
+
+    // Load the Tiled map
+    this.loadTiledMap();
+
+    // Weapons raycast and latch onto the collision layer
+    if (this.platformsLayer) {
+      this.weaponManager.setWorldLayer(this.platformsLayer);
+    }
+
+    // Create player at spawn point
+    this.createPlayer();
+
+    // Health and lives (top-left); weapon name, ammo/heat/stamina and currency (top-right)
+    new PlayerHud(this, this.player, this.livesManager);
+    new WeaponHud(this, this.weaponManager, this.upgradeManager);
+    new EncounterHud(this, this.encounterManager);
+    this.upgradeMenu = new UpgradeMenu(this, this.inputMapper, this.upgradeManager, this.weaponManager);
+
+    // Set up camera to follow player with bounds
+    this.cameras.main.setBounds(0, 0, this.levelWidth, this.levelHeight);
+    this.cameras.main.startFollow(this.player, true, 0.08, 0.08);
+
+    // Set world bounds for physics
+    this.physics.world.setBounds(0, 0, this.levelWidth, this.levelHeight);
+    this.encounterManager.setLevelBounds(this.levelWidth, this.levelHeight);
+
+    // Add scene switcher for development
+    new SceneSwitcher(this, ENABLE_SCENE_SWITCHER);
+
+    console.log(`LevelScene: Level ready - ${this.levelWidth}x${this.levelHeight}px`);
+  }
+
+  private loadTiledMap(): void {
+    const level = TiledLevelLoader.build(this, this.level);
+    if (!level) return;
+
+    this.map = level.map;
+    this.objects = level.objects;
+
+    // Store level dimensions
+    this.levelWidth = this.map.widthInPixels;
+    this.levelHeight = this.map.heightInPixels;
+
+    if (level.collisionLayer) {
+      this.platformsLayer = level.collisionLayer;
+    }
+
+    console.log(`LevelScene: Processed ${level.tileLayers.size} tile layers`);
+
+    // Enemies that can jump path across the collision layer
+    this.navigator = this.platformsLayer ? new Navigator(this, this.platformsLayer) : null;
+
+    // Object layers: spawn points, pickups, enemies... (collision handled by tiles)
+    this.processObjectLayer();
+  }
+
+  private processObjectLayer(): void {
+    if (this.objects.length === 0) {
+      console.warn(`LevelScene: Level '${this.level.id}' has no objects`);
+      return;
+    }
+
+    const factory = this.createObjectFactory();
+    this.objects.forEach(obj => factory.create(obj));
+  }
+
+  /**
+   * Object types this scene builds from the map, with the custom properties each reads
+   */
+  private createObjectFactory(): TiledObjectFactory {
+    const factory = new TiledObjectFactory();
+
+    // ground/platform collision is now handled by tile-based collision
+    factory.ignore('ground', 'platform');
+
+    factory.register('player-spawn', {}, obj => {
+      const point = { x: obj.x || 0, y: obj.y || 0 };
+      this.spawnPoint ??= point;
+      if (obj.name) this.spawnPoints.set(obj.name, point);
+      console.log(`LevelScene: Found spawn point '${obj.name}' at (${point.x}, ${point.y})`);
+    });
+
+    factory.register('weapon-pickup', { weapon: { type: 'string', required: true } }, (obj, { weapon }) => {
+      this.createPickup(obj, PickupKind.WEAPON, weapon);
+    });
+    factory.register('ammo-pickup', { weapon: { type: 'string', required: true }, amount: { type: 'int' } },
+      (obj, { weapon, amount }) => this.createPickup(obj, PickupKind.AMMO, weapon, amount));
+    factory.register('health-pickup', { amount: { type: 'int' } },
+      (obj, { amount }) => this.createPickup(obj, PickupKind.HEALTH, undefined, amount));
+    factory.register('currency-pickup', { amount: { type: 'int' } },
+      (obj, { amount }) => this.createPickup(obj, PickupKind.CURRENCY, undefined, amount));
+
+    factory.register('checkpoint', {}, obj => {
+      const checkpoint = new Checkpoint(this, obj.x || 0, obj.y || 0);
+      this.checkpoints.add(checkpoint);
+      console.log(`LevelScene: Found checkpoint at (${obj.x}, ${obj.y})`);
+    });
+
+    factory.register('hazard', {
+      effect: { type: 'string', required: true },
+      duration: { type: 'int' },
+      damage: { type: 'int' },
+      cooldown: { type: 'int' },
+    }, (obj, properties) => this.createHazard(obj, properties));
+
+    factory.register('enemy-spawner', {}, obj => {
+      this.encounterManager.addSpawner(
+        new EnemySpawner(this, obj.name, obj.x || 0, obj.y || 0, this.spawnEnemy.bind(this))
+      );
+      console.log(`LevelScene: Found enemy spawner '${obj.name}' at (${obj.x}, ${obj.y})`);
+    });
+
+    factory.register('encounter', { waves: { type: 'string', required: true }, arena: { type: 'bool' } },
+      (obj, { waves, arena }) => this.createEncounterZone(obj, waves, arena));
+    factory.register('boss-arena', { boss: { type: 'string', required: true }, spawner: { type: 'string' } },
+      (obj, { boss, spawner }) => this.createBossArena(obj, boss, spawner));
+
+    const exitProperties = { target: { type: 'string' }, spawn: { type: 'string' } } as const;
+    factory.register('exit', exitProperties, (obj, { target, spawn }) => this.createExit(obj, false, target, spawn));
+    factory.register('door', exitProperties, (obj, { target, spawn }) => this.createExit(obj, true, target, spawn));
+
+    // Enemies take any other custom property as a stat override (checked by EnemyArchetypes);
+    // declared ones arrive converted, unknown ones raw so they're still reported
+    EnemyArchetypes.getTypes().forEach(type => {
+      factory.register(type, ENEMY_PROPERTIES, (obj, properties, raw) => this.createEnemy(obj, type, { ...raw, ...properties }));
+    });
+
+    // Street lamps, gym equipment, dustbins...
+    Prop.getTypes().forEach(type => {
+      factory.register(type, PROP_PROPERTIES, (obj, properties) => this.createProp(obj, type, properties));
+    });
+
+    return factory;
+  }
+
+  /**
+   * Placed pickup - 'amount' for health/currency/ammo, 'weapon' for ammo/weapon
+   * Placed pickups never despawn
+   */
+  private createPickup(obj: Phaser.Types.Tilemaps.TiledObject, kind: PickupKind, weaponId?: string, amount?: number): void {
+    // Already owned - don't respawn the pickup
+    if (kind === PickupKind.WEAPON && this.weaponManager.isUnlocked(weaponId!)) return;
+
+    this.pickupManager.spawn({ kind, amount, weapon: weaponId }, obj.x || 0, obj.y || 0);
+    console.log(`LevelScene: ${kind} pickup${weaponId ? ` '${weaponId}'` : ''}${amount !== undefined ? ` x${amount}` : ''} at (${obj.x}, ${obj.y})`);
+  }
+
+  private createHazard(
+    obj: Phaser.Types.Tilemaps.TiledObject,
+    properties: { effect: string; duration?: number; damage?: number; cooldown?: number }
+  ): void {
+    const effect = { type: properties.effect, duration: properties.duration };
+    const errors = StatusEffectFactory.validate(effect, 'effect');
+    if (errors.length > 0) {
+      console.warn(`LevelScene: Skipping hazard '${obj.name}' - ${errors.join('; ')}`);
+      return;
+    }
+
+    const width = obj.width || 16;
+    const height = obj.height || 16;
+    const hazard = new Hazard(this, (obj.x || 0) + width / 2, (obj.y || 0) + height / 2, width, height, {
+      effect,
+      damage: properties.damage,
+      cooldownFrames: properties.cooldown,
+    });
+    this.hazards.add(hazard);
+    console.log(`LevelScene: Hazard '${effect.type}' at (${obj.x}, ${obj.y})`);
+  }
+
+  /**
+   * Spawn an enemy archetype - the object's other custom properties override its stats
+   */
+  private createEnemy(obj: Phaser.Types.Tilemaps.TiledObject, type: string, properties: Record<string, unknown>): void {
+    if (this.spawnEnemy(type, obj.x || 0, obj.y || 0, properties)) {
+      console.log(`LevelScene: Spawned '${type}' at (${obj.x}, ${obj.y})`);
+    }
+  }
+
+  /**
+   * Create an enemy archetype standing on (x, y) and add it to the level
+   */
+  private spawnEnemy(type: string, x: number, y: number, properties?: Record<string, unknown>): Enemy | null {
+    const enemy = EnemyArchetypes.spawn(this, type, x, y, properties);
+    if (enemy) {
+      this.addEnemy(enemy);
+    }
+    return enemy;
+  }
+
+  private createEncounterZone(obj: Phaser.Types.Tilemaps.TiledObject, script: string, arena?: boolean): void {
+    const name = obj.name || `encounter-${obj.id}`;
+    const waves = WaveScript.parse(script, name);
+    if (waves.length === 0) {
+      console.warn(`LevelScene: Encounter '${name}' has no valid waves - skipped`);
+      return;
+    }
+
+    // Tiled rectangles are positioned by their top-left corner
+    const width = obj.width || 0;
+    const height = obj.height || 0;
+    const zone = new EncounterZone(this, (obj.x || 0) + width / 2, (obj.y || 0) + height / 2, width, height, {
+      name,
+      waves,
+      arena,
+    });
+    this.encounterZones.add(zone);
+    console.log(`LevelScene: Encounter '${name}' with ${waves.length} waves at (${obj.x}, ${obj.y})`);
+  }
+
+  /**
+   * Boss arena - an arena encounter whose only wave is the boss
+   * Spawns at the named `spawner`, or just inside the zone's right side
+   */
+  private createBossArena(obj: Phaser.Types.Tilemaps.TiledObject, bossType: string, spawner?: string): void {
+    const name = obj.name || `boss-arena-${obj.id}`;
+    if (!EnemyArchetypes.has(bossType)) {
+      console.warn(`LevelScene: Boss arena '${name}' has unknown boss '${bossType}' - skipped`);
+      return;
+    }
+
+    const x = obj.x || 0;
+    const y = obj.y || 0;
+    const width = obj.width || 0;
+    const height = obj.height || 0;
+
+    let spawnerName = spawner;
+    if (!spawnerName) {
+      spawnerName = `${name}-boss`;
+      this.encounterManager.addSpawner(
+        new EnemySpawner(this, spawnerName, x + width - 48, y + height, this.spawnEnemy.bind(this))
+      );
+    }
+
+    const zone = new EncounterZone(this, x + width / 2, y + height / 2, width, height, {
+      name,
+      waves: [{ delay: 30, spawns: [{ archetype: bossType, spawner: spawnerName }] }],
+      arena: true,
+    });
+    this.encounterZones.add(zone);
+    console.log(`LevelScene: Boss arena '${name}' (${bossType}) at (${x}, ${y})`);
+  }
+
+  /**
+   * Exit or door rectangle - `target` level (none = back to the level select)
+   * and the named player-spawn to arrive at there
+   */
+  private createExit(obj: Phaser.Types.Tilemaps.TiledObject, door: boolean, target?: string, spawn?: string): void {
+    if (target && !LevelManifest.get(target)) {
+      console.warn(`LevelScene: ${door ? 'Door' : 'Exit'} '${obj.name}' leads to unknown level '${target}' - skipped`);
+      return;
+    }
+
+    const width = obj.width || 16;
+    const height = obj.height || 32;
+    const exit = new LevelExit(this, (obj.x || 0) + width / 2, (obj.y || 0) + height / 2, width, height, {
+      target,
+      spawn,
+      door,
+    });
+    this.exits.add(exit);
+    console.log(`LevelScene: ${door ? 'Door' : 'Exit'} to '${target ?? 'level select'}' at (${obj.x}, ${obj.y})`);
+  }
+
+  /**
+   * Scenery prop standing on the object's bottom-centre
+   * Solid props block the player and enemies; dynamic ones also land on the tiles
+   */
+  private createProp(obj: Phaser.Types.Tilemaps.TiledObject, type: string, properties: PropProperties): void {
+    const x = (obj.x || 0) + (obj.width || 0) / 2;
+    const y = (obj.y || 0) + (obj.height || 0);
+    const prop = Prop.spawn(this, type, x, y, properties);
+    if (!prop) return;
+
+    if (prop.isSolid()) {
+      this.solidProps.push(prop);
+    }
+    if (prop.getPhysicsMode() === 'dynamic' && this.platformsLayer) {
+      this.physics.add.collider(prop, this.platformsLayer);
+    }
+    console.log(`LevelScene: Prop '${type}' (${prop.getPhysicsMode()}) at (${x}, ${y})`);
+  }
+
+  /**
+   * Put an enemy into the level - it lands on the 'world' layer, uses it for
+   * sight lines and ledge checks, and joins combat (AI runs from update)
+   */
+  public addEnemy(enemy: Enemy): void {
+    enemy.setWorldLayer(this.platformsLayer ?? null);
+    if (this.platformsLayer) {
+      this.physics.add.collider(enemy, this.platformsLayer);
+    }
+    enemy.setCollideWorldBounds(true);
+    this.physics.add.collider(enemy, this.solidProps);
+    enemy.setNavigator(this.navigator);
+    this.combatManager.addEnemy(enemy);
+
+    // Loot pops out where it went down
+    enemy.once(EnemyEvent.DEFEATED, () => {
+      const table = enemy.getDropTable();
+      if (table) this.pickupManager.dropLoot(table, enemy.x, enemy.y);
+    });
+
+    if (enemy instanceof Boss) {
+      new BossHud(this, enemy);
+    }
+  }
+
+  /**
+   * Change a tile on the collision layer (index -1 removes it) and let the
+   * nav graphs know - use this rather than putTileAt/removeTileAt directly
+   */
+  public setWorldTile(tileX: number, tileY: number, index: number): void {
+    if (!this.platformsLayer) return;
+
+    if (index < 0) {
+      this.platformsLayer.removeTileAt(tileX, tileY);
+    } else {
+      const tile = this.platformsLayer.putTileAt(index, tileX, tileY);
+      tile.setCollision(!!tile.properties?.collides);
+    }
+    this.events.emit(NavEvent.TILES_CHANGED);
+  }
+
+  private createPlayer(): void {
+    // Arriving through an exit or door uses its named spawn point
+    let namedSpawn: { x: number; y: number } | undefined;
+    if (this.spawnId) {
+      namedSpawn = this.spawnPoints.get(this.spawnId);
+      if (!namedSpawn) {
+        console.warn(`LevelScene: No player-spawn named '${this.spawnId}' - using the first`);
+      }
+    }
+
+    // Use spawn point from map or default fallback
+    const spawn = namedSpawn || this.spawnPoint || { x: 36, y: 208 };
+    if (!this.spawnPoint) {
+      console.warn('LevelScene: No spawn point found in map, using default (36, 208)');
+    }
+    
+    // Spawn player at the spawn point from the map
+    this.player = new Player(this, spawn.x, spawn.y, this.inputMapper);
+    this.respawnPoint = spawn;
+    this.player.on(PlayerEvent.DIED, this.onPlayerDied, this);
+
+    // Health and status effects carried over from the previous map
+    PlayerState.restore(this.registry, this.player);
+
+    // Set up collision with platforms layer (tile-based collision)
+    if (this.platformsLayer) {
+      this.physics.add.collider(this.player, this.platformsLayer);
+    }
+
+    // Keep player within world bounds
+    this.player.setCollideWorldBounds(true);
+
+    // Solid props block the player (dynamic ones get pushed), and each other
+    this.physics.add.collider(this.player, this.solidProps);
+    this.physics.add.collider(this.solidProps, this.solidProps);
+
+    // Collect pickups on touch (and pull them in when close)
+    this.pickupManager.setPlayer(this.player);
+
+    // Touching a checkpoint moves the respawn point there
+    this.physics.add.overlap(this.player, this.checkpoints, (_player, checkpoint) => {
+      const flag = checkpoint as Checkpoint;
+      if (flag.activate()) {
+        this.respawnPoint = flag.getRespawnPoint();
+        console.log(`LevelScene: Checkpoint reached at (${this.respawnPoint.x}, ${this.respawnPoint.y})`);
+      }
+    });
+
+    // Hazards apply their status effect on touch
+    this.physics.add.overlap(this.player, this.hazards, (_player, hazard) => {
+      (hazard as Hazard).affect(this.player);
+    });
+
+    // Walking into an encounter zone starts its waves
+    this.physics.add.overlap(this.player, this.encounterZones, (_player, zone) => {
+      if (!this.player.isDead()) this.encounterManager.start(zone as EncounterZone);
+    });
+
+    console.log(`LevelScene: Player spawned at (${spawn.x}, ${spawn.y})`);
+  }
+
+  /**
+   * Walk into exits; doors show a prompt and need up pressed while in front of them
+   */
+  private updateExits(): void {
+    this.exits.getChildren().forEach(exit => (exit as LevelExit).setPromptVisible(false));
+    if (this.player.isDead() || this.travelling) return;
+
+    this.physics.overlap(this.player, this.exits, (_player, zone) => {
+      const exit = zone as LevelExit;
+      if (!exit.isDoor()) {
+        this.travel(exit.getTarget(), exit.getSpawn(), true);
+        return;
+      }
+
+      exit.setPromptVisible(true);
+      if (this.inputMapper.isActionJustPressed(GameAction.MOVE_UP)) {
+        this.travel(exit.getTarget(), exit.getSpawn(), false);
+      }
+    });
+  }
+
+  /**
+   * Fade out and load another level, taking the player's health and effects along,
+   * or go back to the level select (the next level starts fresh). Exits also complete this level.
+   */
+  private travel(target: string | undefined, spawnId: string | undefined, complete: boolean): void {
+    if (this.travelling) return;
+    this.travelling = true;
+
+    if (complete) {
+      this.levelProgress.complete(this.level.id);
+    }
+    if (target) {
+      PlayerState.store(this.registry, this.player);
+    }
+
+    this.weaponManager.stopFiring();
+    this.physics.pause();
+    this.cameras.main.fadeOut(this.TRAVEL_FADE_MS);
+    this.cameras.main.once(Phaser.Cameras.Scene2D.Events.FADE_OUT_COMPLETE, () => {
+      if (target) {
+        console.log(`LevelScene: Travelling to '${target}'${spawnId ? ` (${spawnId})` : ''}`);
+        this.scene.start('LevelScene', { levelId: target, spawnId });
+      } else {
+        this.scene.start('LevelSelectScene');
+      }
+    });
+  }
+
+  /**
+   * Lose a life, then respawn after the death animation or go to game over
+   */
+  private onPlayerDied(): void {
+    const hasLivesLeft = this.livesManager.loseLife();
+
+    this.time.delayedCall(PLAYER_RESPAWN_DELAY_MS, () => {
+      if (hasLivesLeft) {
+        // An encounter the player died in starts over when they walk back in
+        this.encounterManager.reset();
+        this.player.respawn(this.respawnPoint.x, this.respawnPoint.y);
+      } else {
+        this.scene.start('GameOverScene', { levelKey: this.scene.key, levelData: { levelId: this.level.id } });
+      }
+    });
+  }
+
+  update(time: number, delta: number): void {
+    // Update input mapper
+    this.inputMapper.update();
+
+    // Fading out to the next level
+    if (this.travelling) return;
+
+    // Upgrade menu pauses gameplay while open
+    if (this.upgradeMenu.isOpen()) {
+      this.upgradeMenu.update();
+      if (!this.upgradeMenu.isOpen()) {
+        this.physics.resume();
+      }
+      return;
+    }
+    if (this.inputMapper.isActionJustPressed(GameAction.UPGRADE_MENU)) {
+      this.weaponManager.stopFiring();
+      this.physics.pause();
+      this.upgradeMenu.show();
+      return;
+    }
+
+    // Update player
+    this.player.update(time, delta);
+
+    // Exits and doors to other levels
+    this.updateExits();
+
+    // Scripted waves
+    this.encounterManager.update();
+
+    // Resolve weapon hits against enemies
+    this.combatManager.update();
+
+    // Enemy AI, then their contact/attack hits on the player
+    this.combatManager.getEnemies().forEach(enemy => enemy.update(this.player));
+    this.combatManager.resolveEnemyHits(this.player);
+
+    // Enemies aren't in a physics group - check them against hazards directly
+    this.combatManager.getEnemies().forEach(enemy => {
+      this.physics.overlap(enemy, this.hazards, (_enemy, hazard) => (hazard as Hazard).affect(enemy));
+    });
+
+    this.pickupManager.update();
+  }
+}
@@ -0,0 +1,162 @@
+import Phaser from 'phaser';
+import { BASE_WIDTH, BASE_HEIGHT } from '../game/constants';
+import { InputMapper, GameAction } from '../systems/InputMapper';
+import { FullscreenManager } from '../systems/FullscreenManager';
+import { LevelDefinition, LevelManifest } from '../systems/levels/LevelManifest';
+import { LevelProgress } from '../systems/levels/LevelProgress';
+
+/**
+ * LevelSelectScene - the world map
+ * Shows the manifest's level sequence as a row of stops; locked levels are greyed
+ * out, completed ones ticked. Left/right to choose, jump (or tap) to play.
+ */
+export class LevelSelectScene extends Phaser.Scene {
+  private readonly STOP_SPACING = 120;
+  private readonly LOCKED_COLOR = 0x555555;
+  private readonly OPEN_COLOR = 0xffffff;
+  private readonly DONE_COLOR = 0x00ff00;
+
+  private inputMapper!: InputMapper;
+  private fullscreenManager!: FullscreenManager;
+  private levelProgress!: LevelProgress;
+  private levels: LevelDefinition[] = [];
+  private selected: number = 0;
+  private cursor!: Phaser.GameObjects.Triangle;
+  private nameText!: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'LevelSelectScene' });
+  }
+
+  create(): void {
+    // Get systems from registry
+    this.inputMapper = this.registry.get('inputMapper') as InputMapper;
+    this.fullscreenManager = this.registry.get('fullscreenManager') as FullscreenManager;
+
+    // Completed levels persist across scenes (until the run ends)
+    this.levelProgress = this.registry.get('levelProgress') as LevelProgress | undefined
+      ?? new LevelProgress();
+    this.registry.set('levelProgress', this.levelProgress);
+
+    // IMPORTANT: Set the scene so InputMapper listens to THIS scene's keyboard
+    this.inputMapper.setScene(this);
+
+    if (this.fullscreenManager) {
+      this.fullscreenManager.createFullscreenButton(this);
+    }
+
+    const title = this.add.text(BASE_WIDTH / 2, BASE_HEIGHT / 5, 'SELECT LEVEL', {
+      fontFamily: 'Arial Black',
+      fontSize: '24px',
+      color: '#00ff00',
+      stroke: '#000000',
+      strokeThickness: 5,
+    });
+    title.setOrigin(0.5);
+
+    this.levels = LevelManifest.getSequence();
+    this.createStops();
+
+    this.nameText = this.add.text(BASE_WIDTH / 2, BASE_HEIGHT * 0.7, '', {
+      fontFamily: 'Arial',
+      fontSize: '16px',
+      color: '#ffffff',
+    });
+    this.nameText.setOrigin(0.5);
+
+    // Start on the furthest level that's open
+    this.selected = 0;
+    this.levels.forEach((level, index) => {
+      if (this.levelProgress.isUnlocked(level.id)) this.selected = index;
+    });
+    this.select(this.selected);
+
+    console.log(`LevelSelectScene: Ready (${this.levels.length} levels)`);
+  }
+
+  /**
+   * One stop per level along a path, centred on screen
+   */
+  private createStops(): void {
+    const y = BASE_HEIGHT / 2;
+    const startX = BASE_WIDTH / 2 - ((this.levels.length - 1) * this.STOP_SPACING) / 2;
+
+    if (this.levels.length > 1) {
+      const endX = startX + (this.levels.length - 1) * this.STOP_SPACING;
+      this.add.line(0, 0, startX, y, endX, y, this.LOCKED_COLOR).setOrigin(0, 0);
+    }
+
+    this.levels.forEach((level, index) => {
+      const x = startX + index * this.STOP_SPACING;
+      const unlocked = this.levelProgress.isUnlocked(level.id);
+      const completed = this.levelProgress.isCompleted(level.id);
+      const color = completed ? this.DONE_COLOR : unlocked ? this.OPEN_COLOR : this.LOCKED_COLOR;
+
+      const stop = this.add.circle(x, y, 10, color);
+      stop.setStrokeStyle(2, 0x000000);
+      stop.setInteractive({ useHandCursor: unlocked });
+      stop.on('pointerdown', () => {
+        if (this.selected === index) {
+          this.startLevel();
+        } else {
+          this.select(index);
+        }
+      });
+
+      const label = completed ? '✓' : unlocked ? `${index + 1}` : '-';
+      this.add.text(x, y + 18, label, {
+        fontFamily: 'Arial',
+        fontSize: '12px',
+        color: '#ffffff',
+      }).setOrigin(0.5, 0);
+    });
+
+    this.cursor = this.add.triangle(0, y - 26, 0, 0, 12, 0, 6, 8, 0xffff00);
+  }
+
+  private select(index: number): void {
+    const level = this.levels[index];
+    if (!level) {
+      this.nameText.setText('NO LEVELS');
+      this.cursor.setVisible(false);
+      return;
+    }
+
+    this.selected = index;
+    const startX = BASE_WIDTH / 2 - ((this.levels.length - 1) * this.STOP_SPACING) / 2;
+    this.cursor.setX(startX + index * this.STOP_SPACING);
+
+    const state = this.levelProgress.isCompleted(level.id)
+      ? ' (COMPLETE)'
+      : this.levelProgress.isUnlocked(level.id) ? '' : ' (LOCKED)';
+    this.nameText.setText(`${level.name.toUpperCase()}${state}`);
+  }
+
+  update(): void {
+    if (!this.inputMapper) return;
+
+    this.inputMapper.update();
+
+    if (this.inputMapper.isActionJustPressed(GameAction.MOVE_LEFT)) {
+      this.select(Math.max(0, this.selected - 1));
+    } else if (this.inputMapper.isActionJustPressed(GameAction.MOVE_RIGHT)) {
+      this.select(Math.min(this.levels.length - 1, this.selected + 1));
+    } else if (this.inputMapper.isActionJustPressed(GameAction.JUMP)) {
+      this.startLevel();
+    }
+  }
+
+  private startLevel(): void {
+    const level = this.levels[this.selected];
+    if (!level) return;
+
+    if (!this.levelProgress.isUnlocked(level.id)) {
+      console.log(`LevelSelectScene: '${level.id}' is locked`);
+      this.cameras.main.shake(120, 0.005);
+      return;
+    }
+
+    console.log(`LevelSelectScene: Starting '${level.id}'...`);
+    this.scene.start('LevelScene', { levelId: level.id });
+  }
+}
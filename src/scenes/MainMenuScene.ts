@@ -2,6 +2,7 @@ import Phaser from 'phaser';
 import { BASE_WIDTH, BASE_HEIGHT } from '../game/constants';
 import { InputMapper, GameAction } from '../systems/InputMapper';
 import { FullscreenManager } from '../systems/FullscreenManager';
+import { RunState } from '../systems/levels/RunState';
 
 /**
  * MainMenuScene - Title screen and main menu
@@ -22,6 +23,9 @@ export class MainMenuScene extends Phaser.Scene {
     this.inputMapper = this.registry.get('inputMapper') as InputMapper;
     this.fullscreenManager = this.registry.get('fullscreenManager') as FullscreenManager;
 
+    // Back at the title (ESC or game over) - the next game is a new run
+    RunState.reset(this.registry);
+
     // IMPORTANT: Set the scene so InputMapper listens to THIS scene's keyboard
     this.inputMapper.setScene(this);
 
@@ -106,8 +110,8 @@ export class MainMenuScene extends Phaser.Scene {
     // Stop button tween
     this.tweens.killTweensOf(this.playButton);
 
-    // Transition to gameplay immediately (no fade for now)
-    console.log('Transitioning to PromenadeScene...');
-    this.scene.start('PromenadeScene');
+    // Transition to the level select immediately (no fade for now)
+    console.log('Transitioning to LevelSelectScene...');
+    this.scene.start('LevelSelectScene');
   }
 }
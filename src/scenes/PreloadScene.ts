@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { BASE_WIDTH, BASE_HEIGHT } from '../game/constants';
 import { AdManager } from '../systems/AdManager';
+import { LevelManifest } from '../systems/levels/LevelManifest';
 
 /**
  * PreloadScene - Load assets and show progress
@@ -35,14 +36,12 @@ export class PreloadScene extends Phaser.Scene {
       margin: 0,
     });
 
-    // Load promenade Tiled map and tileset
-    this.load.tilemapTiledJSON('promenade-map', 'assets/maps/promenade.json');
-    this.load.image('promenade-tileset', 'assets/maps/assets/promenade.png');
+    // Load weapon definitions (validated by WeaponRegistry)
+    this.load.json('weapon-definitions', 'assets/data/weapons.json');
+    this.load.json('upgrade-definitions', 'assets/data/upgrades.json');
 
-    // Load map image layers
-    this.load.image('mountains', 'assets/maps/assets/mountains.png');
-    this.load.image('buildings', 'assets/maps/assets/buildings.png');
-    this.load.image('playable-area', 'assets/maps/assets/playable-area.png');
+    // Level list - each LevelScene loads its own Tiled map, tilesets and image layers
+    this.load.json('level-manifest', 'assets/data/levels.json');
 
     // Load parallax background (legacy/fallback)
     this.load.image('parallax-background', 'assets/maps/assets/parallax_background_layer_6.png');
@@ -53,7 +52,7 @@ export class PreloadScene extends Phaser.Scene {
     this.load.image('character-east', 'assets/character-athlone/rotations/east.png');
     this.load.image('character-north', 'assets/character-athlone/rotations/north.png');
 
-    // Load promenade objects
+    // Load prop sprites (see Prop types)
     this.load.image('street-lamp', 'assets/street-lamp.png');
     this.load.image('gym-equipment', 'assets/gym-equipment.png');
     this.load.image('trash-bin', 'assets/trash-bin.png');
@@ -114,6 +113,8 @@ export class PreloadScene extends Phaser.Scene {
       adManager.gameLoadingFinished();
     }
 
+    LevelManifest.load(this.cache.json.get('level-manifest'));
+
     console.log('PreloadScene: Assets loaded');
 
     // Transition to MainMenu after a brief delay
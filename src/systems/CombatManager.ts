@@ -0,0 +1,184 @@
+import Phaser from 'phaser';
+import { Enemy, EnemyEvent } from '../entities/Enemy';
+import { Player } from '../entities/Player';
+import { WeaponManager } from './WeaponManager';
+import { UpgradeManager } from './UpgradeManager';
+import { HitVolume, HitShape } from './weapons/WeaponBase';
+import { StatusEffectFactory } from './status/StatusEffectFactory';
+
+/**
+ * CombatManager - Resolves weapon hit volumes against live enemies
+ * Follows registry singleton pattern like WeaponManager
+ */
+export class CombatManager {
+  private enemies: Set<Enemy>;
+  private weaponManager: WeaponManager | null = null;
+  private upgradeManager: UpgradeManager | null = null;
+
+  // Enemies already hit by each attack, so one swing can't hit twice
+  private hitLog: Map<number, Set<Enemy>>;
+
+  constructor(_scene: Phaser.Scene) {
+    this.enemies = new Set();
+    this.hitLog = new Map();
+  }
+
+  /**
+   * Set the weapon manager whose weapons deal damage
+   */
+  public setWeaponManager(weaponManager: WeaponManager): void {
+    this.weaponManager = weaponManager;
+  }
+
+  /**
+   * Set the wallet credited when enemies go Soggy or are defeated
+   */
+  public setUpgradeManager(upgradeManager: UpgradeManager): void {
+    this.upgradeManager = upgradeManager;
+  }
+
+  /**
+   * Register a live enemy (removed automatically when destroyed)
+   */
+  public addEnemy(enemy: Enemy): void {
+    if (this.enemies.has(enemy)) return;
+
+    this.enemies.add(enemy);
+    enemy.once(Phaser.GameObjects.Events.DESTROY, () => this.removeEnemy(enemy));
+    enemy.on(EnemyEvent.SOGGY, () => this.rewardEnemy(enemy, EnemyEvent.SOGGY));
+    enemy.once(EnemyEvent.DEFEATED, () => this.rewardEnemy(enemy, EnemyEvent.DEFEATED));
+  }
+
+  /**
+   * Pay out Gatsby Sauce for an enemy going Soggy or being defeated
+   */
+  private rewardEnemy(enemy: Enemy, event: EnemyEvent): void {
+    this.upgradeManager?.addCurrency(enemy.getReward(event));
+  }
+
+  /**
+   * Unregister an enemy
+   */
+  public removeEnemy(enemy: Enemy): void {
+    this.enemies.delete(enemy);
+    this.hitLog.forEach(hits => hits.delete(enemy));
+  }
+
+  /**
+   * Get all live enemies
+   */
+  public getEnemies(): Enemy[] {
+    return Array.from(this.enemies);
+  }
+
+  /**
+   * Resolve hits (call every frame after weapons have updated)
+   */
+  public update(): void {
+    if (!this.weaponManager) return;
+
+    const activeAttacks = new Set<number>();
+
+    this.weaponManager.getWeapons().forEach(weapon => {
+      weapon.getHitVolumes().forEach(volume => {
+        activeAttacks.add(volume.attackId);
+        this.resolveHitVolume(volume);
+      });
+    });
+
+    // Forget attacks whose hit volume has gone away
+    this.hitLog.forEach((_hits, attackId) => {
+      if (!activeAttacks.has(attackId)) {
+        this.hitLog.delete(attackId);
+      }
+    });
+  }
+
+  /**
+   * Resolve enemy contact, attack and projectile hits on the player (after enemies have updated)
+   * Player i-frames stop contact damage from landing every frame
+   */
+  public resolveEnemyHits(player: Player): void {
+    if (!player.body || player.isDead()) return;
+
+    const playerBody = player.body as Phaser.Physics.Arcade.Body;
+    const playerBounds = new Phaser.Geom.Rectangle(playerBody.x, playerBody.y, playerBody.width, playerBody.height);
+
+    for (const enemy of this.getEnemies()) {
+      if (!enemy.active) continue;
+
+      // Thrown projectiles break on the player
+      for (const projectile of enemy.getProjectiles()) {
+        if (projectile.active && Phaser.Geom.Intersects.RectangleToRectangle(projectile.getBounds(), playerBounds)) {
+          player.takeDamage(projectile.getDamage(), 0, projectile);
+          projectile.destroy();
+        }
+      }
+
+      const hitbox = enemy.getActiveAttackHitbox();
+      if (hitbox && Phaser.Geom.Intersects.RectangleToRectangle(hitbox, playerBounds)) {
+        enemy.markAttackLanded();
+        player.takeDamage(enemy.getAttackDamage(), 0, enemy);
+        continue;
+      }
+
+      if (enemy.dealsContactDamage() && enemy.getDamage() > 0 && enemy.body) {
+        const enemyBody = enemy.body as Phaser.Physics.Arcade.Body;
+        const enemyBounds = new Phaser.Geom.Rectangle(enemyBody.x, enemyBody.y, enemyBody.width, enemyBody.height);
+        if (Phaser.Geom.Intersects.RectangleToRectangle(enemyBounds, playerBounds)) {
+          player.takeDamage(enemy.getDamage(), 0, enemy);
+        }
+      }
+    }
+  }
+
+  private resolveHitVolume(volume: HitVolume): void {
+    let hits = this.hitLog.get(volume.attackId);
+    if (!hits) {
+      hits = new Set();
+      this.hitLog.set(volume.attackId, hits);
+    }
+
+    for (const enemy of this.getEnemies()) {
+      if (volume.maxHits !== undefined && hits.size >= volume.maxHits) break;
+      if (!enemy.active || hits.has(enemy)) continue;
+      if (!this.overlaps(volume.shape, enemy.getBounds())) continue;
+
+      hits.add(enemy);
+      enemy.takeDamage(volume.damage, volume.saturation);
+
+      if (volume.statusEffect && enemy.active) {
+        const effect = StatusEffectFactory.create(volume.statusEffect);
+        if (effect) enemy.getStatusEffects().applyEffect(effect);
+      }
+
+      if (volume.onHit) {
+        volume.onHit(enemy);
+      }
+    }
+  }
+
+  /**
+   * Test a hit shape against an enemy's bounds
+   */
+  private overlaps(shape: HitShape, bounds: Phaser.Geom.Rectangle): boolean {
+    if (shape instanceof Phaser.Geom.Rectangle) {
+      return Phaser.Geom.Intersects.RectangleToRectangle(shape, bounds);
+    }
+    if (shape instanceof Phaser.Geom.Line) {
+      return Phaser.Geom.Intersects.LineToRectangle(shape, bounds);
+    }
+    if (shape instanceof Phaser.Geom.Triangle) {
+      return Phaser.Geom.Intersects.RectangleToTriangle(bounds, shape);
+    }
+    return Phaser.Geom.Intersects.CircleToRectangle(shape, bounds);
+  }
+
+  /**
+   * Clean up
+   */
+  public destroy(): void {
+    this.enemies.clear();
+    this.hitLog.clear();
+  }
+}
@@ -0,0 +1,248 @@
+import Phaser from 'phaser';
+import { Enemy } from '../entities/Enemy';
+import { EncounterZone } from '../entities/EncounterZone';
+import { EnemySpawner, EnemySpawnFunction } from '../entities/EnemySpawner';
+import { Wave } from './encounters/WaveScript';
+
+/**
+ * Events emitted on EncounterManager.events
+ */
+export enum EncounterEvent {
+  STARTED = 'encounter-started',           // (zone: EncounterZone)
+  WAVE_STARTED = 'encounter-wave-started', // (zone: EncounterZone, wave: number, totalWaves: number) - wave is 1-based
+  CLEARED = 'encounter-cleared',           // (zone: EncounterZone)
+}
+
+/**
+ * An enemy waiting to spawn in the current wave
+ */
+interface PendingSpawn {
+  framesLeft: number;
+  archetype: string;
+  spawner: EnemySpawner;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * EncounterManager - Runs the scripted waves of encounter zones
+ * One encounter at a time: each wave spawns its groups, and the next starts
+ * after its delay once every enemy of the current wave is gone.
+ * Arena encounters lock the camera and world bounds to the zone until cleared.
+ */
+export class EncounterManager {
+  private readonly DEFAULT_WAVE_DELAY = 60;
+  private readonly DEFAULT_SPAWN_INTERVAL = 30;
+  private readonly EDGE_INSET = 16; // Fallback spawns just inside the zone's sides
+
+  private scene: Phaser.Scene;
+  private spawnEnemy: EnemySpawnFunction;
+  private spawners: Map<string, EnemySpawner> = new Map();
+  private levelBounds: Phaser.Geom.Rectangle = new Phaser.Geom.Rectangle();
+
+  // Current encounter
+  private active: EncounterZone | null = null;
+  private waveIndex: number = -1;
+  private waveDelayFrames: number = 0;
+  private pending: PendingSpawn[] = [];
+  private alive: Set<Enemy> = new Set();
+
+  /** HUD subscribes here (see EncounterEvent) */
+  public readonly events: Phaser.Events.EventEmitter;
+
+  constructor(scene: Phaser.Scene, spawnEnemy: EnemySpawnFunction) {
+    this.scene = scene;
+    this.spawnEnemy = spawnEnemy;
+    this.events = new Phaser.Events.EventEmitter();
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  /**
+   * Register a named spawner for waves to use
+   */
+  public addSpawner(spawner: EnemySpawner): void {
+    if (this.spawners.has(spawner.name)) {
+      console.warn(`EncounterManager: Duplicate spawner name '${spawner.name}' - replacing`);
+    }
+    this.spawners.set(spawner.name, spawner);
+  }
+
+  /**
+   * Bounds restored when an arena unlocks
+   */
+  public setLevelBounds(width: number, height: number): void {
+    this.levelBounds.setTo(0, 0, width, height);
+  }
+
+  /**
+   * Start a zone's encounter (ignored while another runs or once it has run)
+   */
+  public start(zone: EncounterZone): void {
+    if (this.active || zone.getWaves().length === 0 || !zone.trigger()) return;
+
+    this.active = zone;
+    this.waveIndex = -1;
+    if (zone.isArena()) {
+      this.lockArena(zone);
+    }
+
+    console.log(`EncounterManager: '${zone.getEncounterName()}' started (${zone.getWaves().length} waves)`);
+    this.events.emit(EncounterEvent.STARTED, zone);
+    this.queueNextWave();
+  }
+
+  /**
+   * Advance spawns and waves (call every frame)
+   */
+  public update(): void {
+    if (!this.active) return;
+
+    if (this.waveDelayFrames > 0) {
+      this.waveDelayFrames--;
+      if (this.waveDelayFrames === 0) {
+        this.startWave();
+      }
+      return;
+    }
+
+    this.pending = this.pending.filter(spawn => {
+      spawn.framesLeft--;
+      if (spawn.framesLeft > 0) return true;
+
+      const enemy = spawn.spawner.spawn(spawn.archetype, spawn.properties);
+      if (enemy) {
+        this.alive.add(enemy);
+        enemy.once(Phaser.GameObjects.Events.DESTROY, () => this.alive.delete(enemy));
+      }
+      return false;
+    });
+
+    // Defeated bosses still playing their outro count as cleared
+    if (this.pending.length === 0 && Array.from(this.alive).every(enemy => enemy.isDefeated())) {
+      this.queueNextWave();
+    }
+  }
+
+  /**
+   * Abandon the current encounter - its enemies are removed and the zone re-arms
+   * (e.g. the player died inside an arena)
+   */
+  public reset(): void {
+    if (!this.active) return;
+
+    console.log(`EncounterManager: '${this.active.getEncounterName()}' reset`);
+    this.alive.forEach(enemy => enemy.destroy());
+    this.alive.clear();
+    this.pending = [];
+    this.active.rearm();
+    this.unlockArena();
+    this.active = null;
+  }
+
+  /**
+   * Check if an encounter is running
+   */
+  public isActive(): boolean {
+    return this.active !== null;
+  }
+
+  /**
+   * Wait out the next wave's delay, or finish the encounter after the last wave
+   */
+  private queueNextWave(): void {
+    const zone = this.active!;
+    const next = zone.getWaves()[this.waveIndex + 1];
+    if (!next) {
+      this.finish();
+      return;
+    }
+
+    // Frames count down in update; start straight away for a zero delay
+    this.waveDelayFrames = next.delay ?? this.DEFAULT_WAVE_DELAY;
+    if (this.waveDelayFrames === 0) {
+      this.startWave();
+    }
+  }
+
+  private startWave(): void {
+    const zone = this.active!;
+    this.waveIndex++;
+    const wave: Wave = zone.getWaves()[this.waveIndex];
+
+    const zoneSpawners = this.getSpawnersIn(zone);
+    let nextSpawner = 0;
+
+    wave.spawns.forEach(group => {
+      const named = group.spawner ? this.spawners.get(group.spawner) : undefined;
+      if (group.spawner && !named) {
+        console.warn(`EncounterManager: No spawner named '${group.spawner}' - using the zone's spawners`);
+      }
+
+      const interval = group.interval ?? this.DEFAULT_SPAWN_INTERVAL;
+      for (let i = 0; i < (group.count ?? 1); i++) {
+        this.pending.push({
+          framesLeft: 1 + i * interval,
+          archetype: group.archetype,
+          spawner: named ?? zoneSpawners[nextSpawner++ % zoneSpawners.length],
+          properties: group.properties,
+        });
+      }
+    });
+
+    console.log(`EncounterManager: '${zone.getEncounterName()}' wave ${this.waveIndex + 1}/${zone.getWaves().length}`);
+    this.events.emit(EncounterEvent.WAVE_STARTED, zone, this.waveIndex + 1, zone.getWaves().length);
+  }
+
+  private finish(): void {
+    const zone = this.active!;
+    this.unlockArena();
+    this.active = null;
+    this.alive.clear(); // A boss mid-outro isn't removed by a later reset
+
+    console.log(`EncounterManager: '${zone.getEncounterName()}' cleared`);
+    this.events.emit(EncounterEvent.CLEARED, zone);
+  }
+
+  /**
+   * Spawners inside the zone; without any, its left and right sides at floor level
+   */
+  private getSpawnersIn(zone: EncounterZone): EnemySpawner[] {
+    const bounds = zone.getBounds();
+    const inside = Array.from(this.spawners.values()).filter(spawner => bounds.contains(spawner.x, spawner.y));
+    if (inside.length > 0) return inside;
+
+    return [
+      new EnemySpawner(this.scene, `${zone.getEncounterName()}-left`, bounds.left + this.EDGE_INSET, bounds.bottom, this.spawnEnemy),
+      new EnemySpawner(this.scene, `${zone.getEncounterName()}-right`, bounds.right - this.EDGE_INSET, bounds.bottom, this.spawnEnemy),
+    ];
+  }
+
+  /**
+   * Hold the camera and physics world to the zone's horizontal extent
+   * (vertical stays open so nothing gets stuck on an invisible ceiling)
+   */
+  private lockArena(zone: EncounterZone): void {
+    const bounds = zone.getBounds();
+    const camera = this.scene.cameras.main;
+    const viewWidth = Math.max(bounds.width, camera.width / camera.zoom);
+
+    camera.setBounds(bounds.left, this.levelBounds.y, viewWidth, this.levelBounds.height);
+    this.scene.physics.world.setBounds(bounds.left, this.levelBounds.y, bounds.width, this.levelBounds.height);
+  }
+
+  private unlockArena(): void {
+    const { x, y, width, height } = this.levelBounds;
+    this.scene.cameras.main.setBounds(x, y, width, height);
+    this.scene.physics.world.setBounds(x, y, width, height);
+  }
+
+  /**
+   * Clean up
+   */
+  public destroy(): void {
+    this.events.removeAllListeners();
+    this.spawners.clear();
+    this.alive.clear();
+    this.pending = [];
+    this.active = null;
+  }
+}
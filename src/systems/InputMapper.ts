@@ -16,6 +16,9 @@ export enum GameAction {
   SECONDARY_FIRE = 'secondaryFire',
   WEAPON_NEXT = 'weaponNext',
   WEAPON_PREV = 'weaponPrev',
+  AIM_LOCK = 'aimLock',           // Hold to stand still and aim in 8 directions
+  RELOAD = 'reload',
+  UPGRADE_MENU = 'upgradeMenu',   // Open/close the weapon upgrade menu
   PAUSE = 'pause',
 }
 
@@ -33,6 +36,7 @@ export class InputMapper {
   private keysPressed: Set<string> = new Set();
   private mobileJumpPressed: boolean = false;
   private mobileFirePressed: boolean = false;
+  private mobileAimLockPressed: boolean = false;
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -186,6 +190,27 @@ export class InputMapper {
     fireButton.on('pointerout', () => {
       this.mobileFirePressed = false;
     });
+
+    // Aim lock button (left of fire) - hold and use the joystick to aim
+    const aimButton = this.scene.add.graphics();
+    aimButton.fillStyle(0x0088ff, 0.6);
+    aimButton.fillCircle(this.scene.scale.width - 160, baseY - 40, 24);
+    aimButton.setInteractive(
+      new Phaser.Geom.Circle(this.scene.scale.width - 160, baseY - 40, 24),
+      Phaser.Geom.Circle.Contains
+    );
+    aimButton.setScrollFactor(0);
+    aimButton.setDepth(9999);
+
+    aimButton.on('pointerdown', () => {
+      this.mobileAimLockPressed = true;
+    });
+    aimButton.on('pointerup', () => {
+      this.mobileAimLockPressed = false;
+    });
+    aimButton.on('pointerout', () => {
+      this.mobileAimLockPressed = false;
+    });
   }
 
   /**
@@ -223,6 +248,9 @@ export class InputMapper {
     if (this.mobileFirePressed) {
       this.currentActions.add(GameAction.PRIMARY_FIRE);
     }
+    if (this.mobileAimLockPressed) {
+      this.currentActions.add(GameAction.AIM_LOCK);
+    }
   }
 
   private updateKeyboardInput(): void {
@@ -245,8 +273,14 @@ export class InputMapper {
       this.currentActions.add(GameAction.MOVE_DOWN);
     }
 
-    // Jump
-    if (this.keysPressed.has('Space') || upDown) {
+    // Aim lock
+    const aimLockDown = this.keysPressed.has('ShiftLeft') || this.keysPressed.has('ShiftRight') || this.keysPressed.has('KeyL');
+    if (aimLockDown) {
+      this.currentActions.add(GameAction.AIM_LOCK);
+    }
+
+    // Jump (Up only jumps when not aim-locked, so it can aim upward)
+    if (this.keysPressed.has('Space') || (upDown && !aimLockDown)) {
       this.currentActions.add(GameAction.JUMP);
     }
 
@@ -260,6 +294,16 @@ export class InputMapper {
       this.currentActions.add(GameAction.SECONDARY_FIRE);
     }
 
+    // Reload
+    if (this.keysPressed.has('KeyR')) {
+      this.currentActions.add(GameAction.RELOAD);
+    }
+
+    // Upgrade menu
+    if (this.keysPressed.has('KeyU')) {
+      this.currentActions.add(GameAction.UPGRADE_MENU);
+    }
+
     // Weapon switching
     if (this.keysPressed.has('KeyQ')) {
       this.currentActions.add(GameAction.WEAPON_PREV);
@@ -321,6 +365,11 @@ export class InputMapper {
       this.currentActions.add(GameAction.SECONDARY_FIRE);
     }
 
+    // Y button (3) for reload
+    if (gamepad.buttons[3]?.pressed) {
+      this.currentActions.add(GameAction.RELOAD);
+    }
+
     // Shoulder buttons for weapon switching
     if (gamepad.buttons[4]?.pressed) { // LB
       this.currentActions.add(GameAction.WEAPON_PREV);
@@ -329,6 +378,16 @@ export class InputMapper {
       this.currentActions.add(GameAction.WEAPON_NEXT);
     }
 
+    // Left trigger for aim lock
+    if (gamepad.buttons[6]?.pressed) {
+      this.currentActions.add(GameAction.AIM_LOCK);
+    }
+
+    // Back/Select button (8) for the upgrade menu
+    if (gamepad.buttons[8]?.pressed) {
+      this.currentActions.add(GameAction.UPGRADE_MENU);
+    }
+
     // Start button for pause
     if (gamepad.buttons[9]?.pressed) {
       this.currentActions.add(GameAction.PAUSE);
@@ -408,6 +467,8 @@ export class InputMapper {
       secondaryFireJustPressed: this.isActionJustPressed(GameAction.SECONDARY_FIRE),
       weaponNext: this.isActionJustPressed(GameAction.WEAPON_NEXT),
       weaponPrevious: this.isActionJustPressed(GameAction.WEAPON_PREV),
+      aimLock: this.isActionActive(GameAction.AIM_LOCK),
+      reloadJustPressed: this.isActionJustPressed(GameAction.RELOAD),
       pause: this.isActionActive(GameAction.PAUSE),
       pauseJustPressed: this.isActionJustPressed(GameAction.PAUSE),
     };
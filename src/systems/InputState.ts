@@ -21,6 +21,12 @@ export interface InputState {
   weaponNext: boolean;
   weaponPrevious: boolean;
 
+  // Aiming
+  aimLock: boolean;         // Held - freeze movement and aim with moveX/moveY
+
+  // Weapon resources
+  reloadJustPressed: boolean;
+
   // Utility
   pause: boolean;
   pauseJustPressed: boolean;
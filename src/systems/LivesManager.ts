@@ -0,0 +1,80 @@
+import Phaser from 'phaser';
+import { PLAYER_STARTING_LIVES, PLAYER_CONTINUES } from '../game/constants';
+
+/**
+ * Events emitted on LivesManager.events
+ */
+export enum LivesEvent {
+  LIVES_CHANGED = 'lives-changed', // (lives: number)
+}
+
+/**
+ * LivesManager - Lives and continues for the current run
+ * Lives in the game registry so counts persist across scenes
+ * Follows registry singleton pattern like InputMapper
+ */
+export class LivesManager {
+  private lives: number = PLAYER_STARTING_LIVES;
+  private continues: number = PLAYER_CONTINUES;
+
+  /** HUD subscribes here (see LivesEvent) */
+  public readonly events: Phaser.Events.EventEmitter;
+
+  constructor() {
+    this.events = new Phaser.Events.EventEmitter();
+  }
+
+  /**
+   * Lives left (including the current one)
+   */
+  public getLives(): number {
+    return this.lives;
+  }
+
+  /**
+   * Continues left on the game over screen
+   */
+  public getContinues(): number {
+    return this.continues;
+  }
+
+  /**
+   * Lose a life on death - returns false when none are left (game over)
+   */
+  public loseLife(): boolean {
+    this.lives = Math.max(0, this.lives - 1);
+    console.log(`LivesManager: ${this.lives} lives left`);
+    this.events.emit(LivesEvent.LIVES_CHANGED, this.lives);
+    return this.lives > 0;
+  }
+
+  /**
+   * Extra life (e.g. from a pickup)
+   */
+  public addLife(): void {
+    this.lives++;
+    this.events.emit(LivesEvent.LIVES_CHANGED, this.lives);
+  }
+
+  /**
+   * Spend a continue to refill lives - returns false if none are left
+   */
+  public useContinue(): boolean {
+    if (this.continues <= 0) return false;
+
+    this.continues--;
+    this.lives = PLAYER_STARTING_LIVES;
+    console.log(`LivesManager: Continue used, ${this.continues} left`);
+    this.events.emit(LivesEvent.LIVES_CHANGED, this.lives);
+    return true;
+  }
+
+  /**
+   * Start a fresh run
+   */
+  public reset(): void {
+    this.lives = PLAYER_STARTING_LIVES;
+    this.continues = PLAYER_CONTINUES;
+    this.events.emit(LivesEvent.LIVES_CHANGED, this.lives);
+  }
+}
@@ -0,0 +1,121 @@
+import Phaser from 'phaser';
+import { ObjectPool } from '../utils/ObjectPool';
+import { Pickup, PickupKind, PickupSpec } from '../entities/pickups/Pickup';
+import { HealthPickup } from '../entities/pickups/HealthPickup';
+import { CurrencyPickup } from '../entities/pickups/CurrencyPickup';
+import { AmmoPickup } from '../entities/pickups/AmmoPickup';
+import { WeaponPickup } from '../entities/pickups/WeaponPickup';
+import { Player } from '../entities/Player';
+import { DropTables } from './loot/DropTables';
+
+/**
+ * PickupManager - every collectible in the level
+ * Health, currency and ammo come from per-kind ObjectPools; weapon pickups are rare
+ * and created as needed. Dropped loot despawns after DROP_LIFETIME frames, placed
+ * pickups stay. Call update() each frame to recycle collected/despawned pickups.
+ */
+export class PickupManager {
+  private readonly DROP_LIFETIME = 600; // 10 seconds at 60fps
+  private readonly POOL_SIZE = 30;
+
+  private scene: Phaser.Scene;
+  private pools: Map<PickupKind, ObjectPool<Pickup>> = new Map();
+  private unpooled: Phaser.Physics.Arcade.Group;
+  private pickups: Set<Pickup> = new Set();
+  private player: Player | null = null;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+
+    this.pools.set(PickupKind.HEALTH, new ObjectPool<Pickup>(scene, HealthPickup, this.POOL_SIZE));
+    this.pools.set(PickupKind.CURRENCY, new ObjectPool<Pickup>(scene, CurrencyPickup, this.POOL_SIZE));
+    this.pools.set(PickupKind.AMMO, new ObjectPool<Pickup>(scene, AmmoPickup, this.POOL_SIZE));
+    this.unpooled = scene.physics.add.group({ allowGravity: false, immovable: true });
+
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  /**
+   * Collect on touch and pull pickups toward this player
+   */
+  public setPlayer(player: Player): void {
+    this.player = player;
+    this.pickups.forEach(pickup => pickup.setMagnetTarget(player));
+
+    const collect = (_player: unknown, pickup: unknown) => (pickup as Pickup).collect(player);
+    this.pools.forEach(pool => this.scene.physics.add.overlap(player, pool.getGroup(), collect));
+    this.scene.physics.add.overlap(player, this.unpooled, collect);
+  }
+
+  /**
+   * Put a pickup in the world - lifetime in frames (null = stays until collected)
+   */
+  public spawn(spec: PickupSpec, x: number, y: number, lifetime: number | null = null, pop: boolean = false): Pickup | null {
+    let pickup: Pickup | null;
+
+    const pool = this.pools.get(spec.kind);
+    if (pool) {
+      pickup = pool.get();
+      if (!pickup) {
+        console.warn(`PickupManager: '${spec.kind}' pool is full - pickup skipped`);
+        return null;
+      }
+    } else if (spec.kind === PickupKind.WEAPON) {
+      if (!spec.weapon) {
+        console.warn('PickupManager: Weapon pickup without a weapon - skipped');
+        return null;
+      }
+      pickup = new WeaponPickup(this.scene, x, y);
+      this.unpooled.add(pickup);
+    } else {
+      console.warn(`PickupManager: Unknown pickup kind '${spec.kind}'`);
+      return null;
+    }
+
+    pickup.configure(spec);
+    pickup.spawn(x, y, lifetime, pop);
+    pickup.setMagnetTarget(this.player);
+    this.pickups.add(pickup);
+    return pickup;
+  }
+
+  /**
+   * Roll a drop table at a position (e.g. where an enemy was defeated)
+   */
+  public dropLoot(tableId: string, x: number, y: number): void {
+    DropTables.roll(tableId).forEach(spec => this.spawn(spec, x, y, this.DROP_LIFETIME, true));
+  }
+
+  /**
+   * Recycle pickups that were collected or timed out
+   */
+  public update(): void {
+    this.pickups.forEach(pickup => {
+      if (pickup.active) return;
+
+      this.pickups.delete(pickup);
+      const pool = this.pools.get(pickup.kind);
+      if (pool) {
+        pool.release(pickup);
+      } else {
+        pickup.destroy();
+      }
+    });
+  }
+
+  /**
+   * Pickups currently in the world
+   */
+  public getPickups(): Pickup[] {
+    return Array.from(this.pickups);
+  }
+
+  public destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+    this.pickups.clear();
+    this.pools.forEach(pool => pool.clear());
+    this.pools.clear();
+    this.unpooled.clear(true, true);
+    this.player = null;
+  }
+}
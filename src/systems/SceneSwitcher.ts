@@ -1,10 +1,12 @@
 import Phaser from 'phaser';
+import { LevelManifest } from './levels/LevelManifest';
 
 /**
  * SceneSwitcher - Development tool for switching between scenes
  *
  * Usage:
- * - Press 1: PromenadeScene (Sea Point Promenade)
+ * - Press 1: LevelScene with the first level of the manifest's sequence
+ * - Press 2: LevelSelectScene
  * - Press ESC: Return to MainMenuScene
  */
 export class SceneSwitcher {
@@ -13,8 +15,9 @@ export class SceneSwitcher {
   private indicatorText?: Phaser.GameObjects.Text;
   private buttonContainer?: Phaser.GameObjects.Container;
 
-  private sceneMap: Map<number, string> = new Map([
-    [1, 'PromenadeScene'],
+  private sceneMap: Map<number, { key: string; data?: object }> = new Map([
+    [1, { key: 'LevelScene', data: { levelId: LevelManifest.getFirst()?.id } }],
+    [2, { key: 'LevelSelectScene' }],
   ]);
 
   constructor(scene: Phaser.Scene, enabled: boolean = true) {
@@ -36,12 +39,12 @@ export class SceneSwitcher {
       4: Phaser.Input.Keyboard.KeyCodes.FOUR,
     };
 
-    this.sceneMap.forEach((sceneName, keyNumber) => {
+    this.sceneMap.forEach((target, keyNumber) => {
       const keyCode = keyCodeMap[keyNumber];
       if (keyCode) {
         const key = this.scene.input.keyboard?.addKey(keyCode);
         if (key) {
-          key.on('down', () => this.switchToScene(sceneName));
+          key.on('down', () => this.switchToScene(target.key, target.data));
         }
       }
     });
@@ -84,11 +87,13 @@ export class SceneSwitcher {
     // Menu button: MainMenuScene (rightmost)
     this.createSceneButton(startX, startY, keyFrames.esc, 'MainMenuScene', 'ESC: Menu');
 
-    // Button 1: PromenadeScene (leftmost)
-    this.createSceneButton(startX - buttonSpacing, startY, keyFrames.one, 'PromenadeScene', '1: Promenade');
+    // Button 1: the first level (leftmost)
+    const firstLevel = this.sceneMap.get(1)!;
+    const name = LevelManifest.getFirst()?.name ?? 'First level';
+    this.createSceneButton(startX - buttonSpacing, startY, keyFrames.one, firstLevel.key, `1: ${name}`, firstLevel.data);
   }
 
-  private createSceneButton(x: number, y: number, frame: number, sceneName: string, _label: string): void {
+  private createSceneButton(x: number, y: number, frame: number, sceneName: string, _label: string, data?: object): void {
     const button = this.scene.add.sprite(x, y, 'input-prompts', frame);
     button.setScale(2.5);
     button.setAlpha(0.75);
@@ -109,7 +114,7 @@ export class SceneSwitcher {
     // Click to switch scene
     button.on('pointerdown', () => {
       button.setScale(2.3);
-      this.switchToScene(sceneName);
+      this.switchToScene(sceneName, data);
     });
 
     button.on('pointerup', () => {
@@ -125,7 +130,7 @@ export class SceneSwitcher {
     }
   }
 
-  private switchToScene(sceneName: string): void {
+  private switchToScene(sceneName: string, data?: object): void {
     console.log(`SceneSwitcher: Switching to ${sceneName}`);
     
     // Show transition feedback
@@ -133,7 +138,7 @@ export class SceneSwitcher {
     
     // Delay the scene switch slightly for visual feedback
     this.scene.time.delayedCall(100, () => {
-      this.scene.scene.start(sceneName);
+      this.scene.scene.start(sceneName, data);
     });
   }
 
@@ -1,53 +1,132 @@
 import Phaser from 'phaser';
-import { StatusEffect, StatusEffectType } from './status/StatusEffect';
-import { Player } from '../entities/Player';
+import { StatusEffect, StatusEffectType, StackingPolicy } from './status/StatusEffect';
+import { StatusEffectRule, STATUS_EFFECT_RULES } from './status/StatusEffectRules';
+import { Affectable } from '../entities/Affectable';
 
 /**
- * StatusEffectManager - Manages active status effects on player
+ * Events emitted on StatusEffectManager.events (for HUD/VFX)
+ */
+export enum StatusEffectEvent {
+  APPLIED = 'applied',               // (effect, target) - newly active
+  MERGED = 'merged',                 // (effect, target) - re-applied while active (refresh/stack/extend/max)
+  EXPIRED = 'expired',               // (effect, target) - ran out
+  REMOVED = 'removed',               // (effect, target) - removed early (cleared, replaced or consumed by a rule)
+  RULE_TRIGGERED = 'rule-triggered', // (rule, target) - an interaction rule fired
+}
+
+/**
+ * StatusEffectManager - Manages active status effects on one target
+ * The Player's lives in the registry; every Enemy owns its own
+ * Re-applied effects follow their stacking policy, then the interaction
+ * rules table decides how different effects combine
  * Follows registry singleton pattern
  */
 export class StatusEffectManager {
+  // Tint priority when several effects are active (first wins)
+  private readonly TINT_PRIORITY: StatusEffectType[] = [
+    StatusEffectType.FROZEN,
+    StatusEffectType.STUNNED,
+    StatusEffectType.FRIED,
+    StatusEffectType.BURNING,
+    StatusEffectType.SOGGY,
+    StatusEffectType.SLIPPERY,
+  ];
+  // Guard against rules that keep producing each other
+  private readonly MAX_RULE_PASSES = 4;
+
+  public readonly events: Phaser.Events.EventEmitter;
   private activeEffects: Map<StatusEffectType, StatusEffect>;
-  private target: Player | null = null;
+  private target: Affectable | null = null;
+  private rules: StatusEffectRule[];
 
-  constructor(_scene: Phaser.Scene) {
+  constructor(_scene: Phaser.Scene, rules: StatusEffectRule[] = STATUS_EFFECT_RULES) {
+    this.events = new Phaser.Events.EventEmitter();
     this.activeEffects = new Map();
+    this.rules = rules;
   }
 
   /**
-   * Set the target (Player)
+   * Set the target (Player or Enemy)
    */
-  public setTarget(target: Player): void {
+  public setTarget(target: Affectable): void {
     this.target = target;
   }
 
   /**
-   * Apply a status effect
+   * Apply a status effect, then resolve interaction rules
    */
   public applyEffect(effect: StatusEffect): void {
     if (!this.target) return;
 
+    this.addEffect(effect);
+    this.applyRules();
+  }
+
+  /**
+   * Add or merge a single effect according to its stacking policy
+   */
+  private addEffect(effect: StatusEffect): void {
+    if (!this.target) return;
+
     const type = effect.getType();
+    const existing = this.activeEffects.get(type);
 
-    // Remove existing effect of same type
-    if (this.activeEffects.has(type)) {
-      this.removeEffect(type);
+    if (existing) {
+      if (existing.getStackingPolicy() !== StackingPolicy.REPLACE) {
+        existing.merge(effect);
+        this.events.emit(StatusEffectEvent.MERGED, existing, this.target);
+        return;
+      }
+      this.detachEffect(type, StatusEffectEvent.REMOVED);
     }
 
     // Apply new effect
-    effect.apply(this.target);
     this.activeEffects.set(type, effect);
+    effect.apply(this.target);
+
+    // onApply may have finished the target off (e.g. Fried bonus damage)
+    if (!this.target) return;
+    this.target.refreshTint();
+    this.events.emit(StatusEffectEvent.APPLIED, effect, this.target);
+  }
+
+  /**
+   * Fire interaction rules until none match
+   */
+  private applyRules(): void {
+    for (let pass = 0; pass < this.MAX_RULE_PASSES; pass++) {
+      if (!this.target || !this.target.active) return;
+
+      const rule = this.rules.find(r => r.requires.every(type => this.activeEffects.has(type)));
+      if (!rule) return;
+
+      console.log(`Status effect rule: ${rule.id}`);
+      rule.removes.forEach(type => this.detachEffect(type, StatusEffectEvent.REMOVED));
+      this.events.emit(StatusEffectEvent.RULE_TRIGGERED, rule, this.target);
+
+      if (rule.produces) {
+        this.addEffect(rule.produces());
+      }
+    }
   }
 
   /**
    * Remove a status effect by type
    */
   public removeEffect(type: StatusEffectType): void {
+    this.detachEffect(type, StatusEffectEvent.REMOVED);
+  }
+
+  private detachEffect(type: StatusEffectType, event: StatusEffectEvent): void {
     const effect = this.activeEffects.get(type);
-    if (effect) {
-      effect.remove();
-      this.activeEffects.delete(type);
-    }
+    if (!effect) return;
+
+    // Delete first - onRemove may damage the target (e.g. Frozen shattering)
+    const target = this.target;
+    this.activeEffects.delete(type);
+    effect.remove();
+    target?.refreshTint();
+    this.events.emit(event, effect, target);
   }
 
   /**
@@ -64,8 +143,11 @@ export class StatusEffectManager {
       }
     });
 
+    // An effect's tick may have destroyed the target (e.g. burned to death)
+    if (!this.target || !this.target.active) return;
+
     // Remove expired effects
-    expiredEffects.forEach(type => this.removeEffect(type));
+    expiredEffects.forEach(type => this.detachEffect(type, StatusEffectEvent.EXPIRED));
   }
 
   /**
@@ -82,12 +164,100 @@ export class StatusEffectManager {
     return this.activeEffects.get(type);
   }
 
+  /**
+   * Combined speed multiplier of all active effects
+   */
+  public getSpeedMultiplier(): number {
+    let multiplier = 1;
+    this.activeEffects.forEach(effect => {
+      multiplier *= effect.getSpeedMultiplier();
+    });
+    return multiplier;
+  }
+
+  /**
+   * Combined multiplier on damage taken by the target
+   */
+  public getDamageTakenMultiplier(): number {
+    let multiplier = 1;
+    this.activeEffects.forEach(effect => {
+      multiplier *= effect.getDamageTakenMultiplier();
+    });
+    return multiplier;
+  }
+
+  /**
+   * Combined ground traction multiplier (lower = more slippery)
+   */
+  public getTractionMultiplier(): number {
+    let multiplier = 1;
+    this.activeEffects.forEach(effect => {
+      multiplier *= effect.getTractionMultiplier();
+    });
+    return multiplier;
+  }
+
+  /**
+   * False while any effect blocks input/AI (Stunned, Frozen)
+   */
+  public canAct(): boolean {
+    for (const effect of this.activeEffects.values()) {
+      if (effect.preventsActions()) return false;
+    }
+    return true;
+  }
+
+  /**
+   * False while any effect holds the target in place (Frozen)
+   */
+  public canMove(): boolean {
+    for (const effect of this.activeEffects.values()) {
+      if (effect.preventsMovement()) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Tell effects the target took a hit (call after damage is applied)
+   * Effects that end on a hit are removed
+   */
+  public notifyHit(damage: number): void {
+    const broken: StatusEffectType[] = [];
+    this.activeEffects.forEach((effect, type) => {
+      if (effect.onTargetHit(damage)) broken.push(type);
+    });
+    broken.forEach(type => this.detachEffect(type, StatusEffectEvent.REMOVED));
+  }
+
+  /**
+   * Tint of the highest priority active effect (undefined if none)
+   */
+  public getTint(): number | undefined {
+    for (const type of this.TINT_PRIORITY) {
+      const tint = this.activeEffects.get(type)?.getTint();
+      if (tint !== undefined) return tint;
+    }
+
+    // Effects not in the priority list
+    for (const effect of this.activeEffects.values()) {
+      const tint = effect.getTint();
+      if (tint !== undefined) return tint;
+    }
+    return undefined;
+  }
+
+  /**
+   * Effects currently active
+   */
+  public getActiveEffects(): StatusEffect[] {
+    return Array.from(this.activeEffects.values());
+  }
+
   /**
    * Clear all effects
    */
   public clearAll(): void {
-    this.activeEffects.forEach(effect => effect.remove());
-    this.activeEffects.clear();
+    Array.from(this.activeEffects.keys()).forEach(type => this.detachEffect(type, StatusEffectEvent.REMOVED));
   }
 
   /**
@@ -101,6 +271,9 @@ export class StatusEffectManager {
    * Clean up
    */
   public destroy(): void {
-    this.clearAll();
+    // Target may already be gone - drop effects without touching it
+    this.activeEffects.clear();
+    this.target = null;
+    this.events.removeAllListeners();
   }
 }
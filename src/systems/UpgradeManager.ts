@@ -0,0 +1,213 @@
+import Phaser from 'phaser';
+import { WeaponModifier, parseModifierStat } from './weapons/WeaponStats';
+
+/**
+ * Events emitted on UpgradeManager.events
+ */
+export enum UpgradeEvent {
+  CURRENCY_CHANGED = 'currency-changed', // (total: number, delta: number)
+  PURCHASED = 'upgrade-purchased',       // (track: UpgradeTrack, tier: number)
+}
+
+export interface UpgradeTier {
+  cost: number;                 // Gatsby Sauce price
+  modifiers: WeaponModifier[];
+}
+
+/**
+ * A line of tiers for one weapon - tiers are bought in order and stack
+ */
+export interface UpgradeTrack {
+  id: string;
+  weapon: string;               // Weapon definition id
+  name: string;
+  description?: string;
+  tiers: UpgradeTier[];
+}
+
+/**
+ * UpgradeManager - Gatsby Sauce wallet and purchased weapon upgrades
+ * Tracks are loaded from the 'upgrade-definitions' JSON (public/assets/data/upgrades.json)
+ * Lives in the game registry so currency and purchases persist across scenes
+ * Follows registry singleton pattern like InputMapper
+ */
+export class UpgradeManager {
+  private tracks: UpgradeTrack[];
+  private purchased: Map<string, number> = new Map(); // Track id -> tiers bought
+  private currency: number = 0;
+
+  /** HUD and WeaponManager subscribe here (see UpgradeEvent) */
+  public readonly events: Phaser.Events.EventEmitter;
+
+  constructor(scene: Phaser.Scene) {
+    this.events = new Phaser.Events.EventEmitter();
+    this.tracks = UpgradeManager.loadTracks(scene.cache.json.get('upgrade-definitions'));
+  }
+
+  /**
+   * Current Gatsby Sauce balance
+   */
+  public getCurrency(): number {
+    return this.currency;
+  }
+
+  /**
+   * Earn currency (e.g. from soggy or defeated enemies)
+   */
+  public addCurrency(amount: number): void {
+    if (amount <= 0) return;
+
+    this.currency += amount;
+    this.events.emit(UpgradeEvent.CURRENCY_CHANGED, this.currency, amount);
+  }
+
+  /**
+   * Upgrade tracks for a weapon (all weapons if no id given)
+   */
+  public getTracks(weaponId?: string): UpgradeTrack[] {
+    return weaponId ? this.tracks.filter(track => track.weapon === weaponId) : [...this.tracks];
+  }
+
+  /**
+   * Number of tiers bought on a track
+   */
+  public getTier(trackId: string): number {
+    return this.purchased.get(trackId) ?? 0;
+  }
+
+  /**
+   * Next tier for sale on a track (null if maxed or unknown)
+   */
+  public getNextTier(trackId: string): UpgradeTier | null {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) return null;
+    return track.tiers[this.getTier(trackId)] ?? null;
+  }
+
+  /**
+   * Check if the next tier on a track is affordable
+   */
+  public canPurchase(trackId: string): boolean {
+    const next = this.getNextTier(trackId);
+    return next !== null && this.currency >= next.cost;
+  }
+
+  /**
+   * Buy the next tier on a track
+   * Returns true if purchased
+   */
+  public purchase(trackId: string): boolean {
+    const track = this.tracks.find(t => t.id === trackId);
+    if (!track) {
+      console.warn(`UpgradeManager: Unknown upgrade '${trackId}'`);
+      return false;
+    }
+
+    const next = this.getNextTier(trackId);
+    if (!next || this.currency < next.cost) return false;
+
+    const tier = this.getTier(trackId) + 1;
+    this.purchased.set(trackId, tier);
+    this.currency -= next.cost;
+
+    console.log(`UpgradeManager: Bought ${track.name} tier ${tier} for ${next.cost}`);
+    this.events.emit(UpgradeEvent.CURRENCY_CHANGED, this.currency, -next.cost);
+    this.events.emit(UpgradeEvent.PURCHASED, track, tier);
+    return true;
+  }
+
+  /**
+   * All modifiers from purchased tiers for a weapon
+   */
+  public getModifiers(weaponId: string): WeaponModifier[] {
+    const modifiers: WeaponModifier[] = [];
+
+    this.getTracks(weaponId).forEach(track => {
+      track.tiers.slice(0, this.getTier(track.id)).forEach(tier => {
+        modifiers.push(...tier.modifiers);
+      });
+    });
+
+    return modifiers;
+  }
+
+  /**
+   * Validate raw track data (the parsed upgrades.json)
+   * Invalid tracks are logged and skipped
+   */
+  private static loadTracks(data: unknown): UpgradeTrack[] {
+    const list = (data as { upgrades?: unknown } | undefined)?.upgrades;
+    if (!Array.isArray(list)) {
+      console.error('UpgradeManager: Upgrade definitions must have an "upgrades" array');
+      return [];
+    }
+
+    const tracks: UpgradeTrack[] = [];
+    const seenIds = new Set<string>();
+
+    list.forEach((entry, index) => {
+      const errors = UpgradeManager.validateTrack(entry);
+      const id = (entry as { id?: unknown })?.id;
+
+      if (typeof id === 'string' && seenIds.has(id)) {
+        errors.push(`duplicate id '${id}'`);
+      }
+
+      if (errors.length > 0) {
+        console.error(`UpgradeManager: Skipping upgrade #${index} - ${errors.join('; ')}`);
+        return;
+      }
+
+      const track = entry as UpgradeTrack;
+      seenIds.add(track.id);
+      tracks.push(track);
+    });
+
+    console.log(`UpgradeManager: Loaded ${tracks.length} upgrade tracks`);
+    return tracks;
+  }
+
+  /**
+   * Return a list of problems with a track (empty if valid)
+   * Weapon ids aren't checked here - tracks for missing weapons simply never apply
+   */
+  private static validateTrack(entry: unknown): string[] {
+    if (typeof entry !== 'object' || entry === null) {
+      return ['not an object'];
+    }
+
+    const def = entry as Record<string, unknown>;
+    const errors: string[] = [];
+    const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+    if (typeof def.id !== 'string' || def.id.length === 0) errors.push('id must be a non-empty string');
+    if (typeof def.weapon !== 'string' || def.weapon.length === 0) errors.push('weapon must be a non-empty string');
+    if (typeof def.name !== 'string' || def.name.length === 0) errors.push('name must be a non-empty string');
+
+    if (!Array.isArray(def.tiers) || def.tiers.length === 0) {
+      errors.push('tiers must be a non-empty array');
+      return errors;
+    }
+
+    def.tiers.forEach((tier: Record<string, unknown>, tierIndex: number) => {
+      if (!isNumber(tier?.cost) || tier.cost < 0) errors.push(`tiers[${tierIndex}].cost must be a number >= 0`);
+      if (!Array.isArray(tier?.modifiers)) {
+        errors.push(`tiers[${tierIndex}].modifiers must be an array`);
+        return;
+      }
+
+      tier.modifiers.forEach((modifier: Record<string, unknown>, modIndex: number) => {
+        const prefix = `tiers[${tierIndex}].modifiers[${modIndex}]`;
+        if (typeof modifier?.stat !== 'string' || !parseModifierStat(modifier.stat)) {
+          errors.push(`${prefix}.stat '${modifier?.stat}' is not an upgradable stat`);
+        }
+        if (modifier?.add !== undefined && !isNumber(modifier.add)) errors.push(`${prefix}.add must be a number`);
+        if (modifier?.multiply !== undefined && (!isNumber(modifier.multiply) || modifier.multiply < 0)) {
+          errors.push(`${prefix}.multiply must be a number >= 0`);
+        }
+      });
+    });
+
+    return errors;
+  }
+}
@@ -1,36 +1,111 @@
 import Phaser from 'phaser';
-import { WeaponBase, WeaponType } from './weapons/WeaponBase';
-import { PolonyPummeler } from './weapons/PolonyPummeler';
-import { ChipShotgun } from './weapons/ChipShotgun';
-import { CalamariWhip } from './weapons/CalamariWhip';
-import { MasalaFlamer } from './weapons/MasalaFlamer';
+import { WeaponBase, WeaponConfig } from './weapons/WeaponBase';
+import { WeaponRegistry } from './weapons/WeaponRegistry';
+import { WeaponResource } from './weapons/resources/WeaponResource';
+import { UpgradeManager, UpgradeEvent, UpgradeTrack } from './UpgradeManager';
 import { Player } from '../entities/Player';
 
+/**
+ * Events emitted on WeaponManager.events
+ */
+export enum WeaponManagerEvent {
+  WEAPON_CHANGED = 'weapon-changed', // (weapon: WeaponBase) - rebind to weapon.getResource()
+  AMMO_COLLECTED = 'ammo-collected', // (weaponId: string, amount: number)
+}
+
 /**
  * WeaponManager - Manages weapon inventory and switching
+ * Weapons are built from the 'weapon-definitions' JSON (see WeaponRegistry)
+ * Weapons start locked unless their definition says otherwise; unlocks
+ * persist across scenes because the manager lives in the game registry
+ * Resources (ammo, heat, stamina) are owned here for the same reason
  * Follows registry singleton pattern like InputMapper
  */
 export class WeaponManager {
-  private weapons: Map<WeaponType, WeaponBase>;
-  private currentWeapon: WeaponBase;
-  private weaponOrder: WeaponType[] = [
-    WeaponType.POLONY_PUMMELER,
-    WeaponType.CHIP_SHOTGUN,
-    WeaponType.CALAMARI_WHIP,
-    WeaponType.MASALA_FLAMER,
-  ];
+  private definitions: WeaponConfig[];
+  private weapons: Map<string, WeaponBase>;
+  private unlocked: Set<string>;
+  private currentWeapon: WeaponBase | null = null;
+  private weaponOrder: string[] = [];
   private currentIndex: number = 0;
+  private resources: Map<string, WeaponResource>;
+  private upgradeManager: UpgradeManager | null = null;
+
+  /** HUD and other listeners subscribe here (see WeaponManagerEvent) */
+  public readonly events: Phaser.Events.EventEmitter;
 
   constructor(scene: Phaser.Scene) {
     this.weapons = new Map();
+    this.unlocked = new Set();
+    this.resources = new Map();
+    this.events = new Phaser.Events.EventEmitter();
+
+    // Weapon order follows definition order
+    this.definitions = WeaponRegistry.loadDefinitions(scene.cache.json.get('weapon-definitions'));
+    this.definitions.forEach(config => {
+      this.weaponOrder.push(config.id);
+      if (config.startsUnlocked) {
+        this.unlocked.add(config.id);
+      }
 
-    // Initialize all weapons
-    this.weapons.set(WeaponType.POLONY_PUMMELER, new PolonyPummeler(scene));
-    this.weapons.set(WeaponType.CHIP_SHOTGUN, new ChipShotgun(scene));
-    this.weapons.set(WeaponType.CALAMARI_WHIP, new CalamariWhip(scene));
-    this.weapons.set(WeaponType.MASALA_FLAMER, new MasalaFlamer(scene));
+      const resource = WeaponRegistry.createResource(config);
+      if (resource) {
+        this.resources.set(config.id, resource);
+      }
+    });
+
+    if (this.weaponOrder.length === 0) {
+      console.error('WeaponManager: No weapons loaded');
+    }
+
+    this.createWeapons(scene);
+  }
+
+  /**
+   * Build weapon instances for a scene and re-equip the current slot
+   */
+  private createWeapons(scene: Phaser.Scene): void {
+    this.weapons.clear();
+    this.definitions.forEach(config => {
+      const weapon = WeaponRegistry.create(scene, config);
+      weapon.setResource(this.resources.get(config.id) ?? null);
+      if (this.upgradeManager) {
+        weapon.setModifiers(this.upgradeManager.getModifiers(config.id));
+      }
+      this.weapons.set(config.id, weapon);
+    });
+
+    const currentId = this.weaponOrder[this.currentIndex];
+    if (currentId && this.unlocked.has(currentId)) {
+      this.currentWeapon = this.weapons.get(currentId)!;
+      return;
+    }
+
+    // Current slot is locked (e.g. first run) - equip the first unlocked weapon
+    this.currentWeapon = null;
+    const firstUnlocked = this.weaponOrder.findIndex(id => this.unlocked.has(id));
+    if (firstUnlocked !== -1) {
+      this.currentIndex = firstUnlocked;
+      this.currentWeapon = this.weapons.get(this.weaponOrder[firstUnlocked])!;
+    }
+  }
+
+  /**
+   * Apply purchased upgrades now and whenever one is bought
+   */
+  public setUpgradeManager(upgradeManager: UpgradeManager): void {
+    this.upgradeManager?.events.off(UpgradeEvent.PURCHASED, this.onUpgradePurchased, this);
+
+    this.upgradeManager = upgradeManager;
+    upgradeManager.events.on(UpgradeEvent.PURCHASED, this.onUpgradePurchased, this);
+    this.weapons.forEach((weapon, id) => weapon.setModifiers(upgradeManager.getModifiers(id)));
+  }
 
-    this.currentWeapon = this.weapons.get(this.weaponOrder[0])!;
+  private onUpgradePurchased(track: UpgradeTrack): void {
+    const weapon = this.weapons.get(track.weapon);
+    if (weapon && this.upgradeManager) {
+      weapon.setModifiers(this.upgradeManager.getModifiers(track.weapon));
+    }
   }
 
   /**
@@ -40,59 +115,189 @@ export class WeaponManager {
     this.weapons.forEach(weapon => weapon.setOwner(owner));
   }
 
+  /**
+   * Set the world collision layer for all weapons
+   */
+  public setWorldLayer(layer: Phaser.Tilemaps.TilemapLayer): void {
+    this.weapons.forEach(weapon => weapon.setWorldLayer(layer));
+  }
+
   /**
    * Update current weapon
    */
   public update(): void {
     // Update all weapons (some like ChipShotgun need to update projectiles)
     this.weapons.forEach(weapon => weapon.update());
+
+    // Resources tick even when holstered (cooling, regeneration, reloads)
+    this.resources.forEach(resource => resource.update());
   }
 
   /**
    * Switch to next weapon
    */
   public nextWeapon(): void {
-    this.currentIndex = (this.currentIndex + 1) % this.weaponOrder.length;
-    this.currentWeapon = this.weapons.get(this.weaponOrder[this.currentIndex])!;
-    console.log(`Switched to: ${this.currentWeapon.getName()}`);
+    this.cycle(1);
   }
 
   /**
    * Switch to previous weapon
    */
   public previousWeapon(): void {
-    this.currentIndex = (this.currentIndex - 1 + this.weaponOrder.length) % this.weaponOrder.length;
+    this.cycle(-1);
+  }
+
+  /**
+   * Step through the weapon order, skipping locked slots
+   */
+  private cycle(step: number): void {
+    const count = this.weaponOrder.length;
+    for (let i = 1; i < count; i++) {
+      const index = (((this.currentIndex + step * i) % count) + count) % count;
+      if (this.unlocked.has(this.weaponOrder[index])) {
+        this.switchTo(index);
+        return;
+      }
+    }
+  }
+
+  private switchTo(index: number): void {
+    this.interrupt();
+    this.currentIndex = index;
     this.currentWeapon = this.weapons.get(this.weaponOrder[this.currentIndex])!;
     console.log(`Switched to: ${this.currentWeapon.getName()}`);
+    this.events.emit(WeaponManagerEvent.WEAPON_CHANGED, this.currentWeapon);
   }
 
   /**
    * Fire current weapon
    */
   public fire(direction: { x: number; y: number }): boolean {
-    return this.currentWeapon.fire(direction);
+    return this.currentWeapon ? this.currentWeapon.fire(direction) : false;
+  }
+
+  /**
+   * Use current weapon's alternate fire
+   */
+  public fireSecondary(direction: { x: number; y: number }): boolean {
+    return this.currentWeapon ? this.currentWeapon.fireSecondary(direction) : false;
+  }
+
+  /**
+   * Secondary fire input released
+   */
+  public releaseSecondary(direction: { x: number; y: number }): void {
+    this.currentWeapon?.releaseSecondary(direction);
+  }
+
+  /**
+   * Stop firing current weapon (fire input released)
+   */
+  public stopFiring(): void {
+    this.currentWeapon?.stopFiring();
+  }
+
+  /**
+   * Stop firing and drop any secondary charge (weapon switch, owner stunned)
+   */
+  public interrupt(): void {
+    this.currentWeapon?.stopFiring();
+    this.currentWeapon?.cancelSecondary();
+  }
+
+  /**
+   * Reload current weapon (no-op for weapons without a magazine)
+   */
+  public reload(): boolean {
+    return this.currentWeapon?.getResource()?.reload() ?? false;
+  }
+
+  /**
+   * Add reserve ammo to a weapon's magazine (locked weapons can still stock up)
+   * Returns true if any ammo was taken
+   */
+  public addAmmo(id: string, amount: number): boolean {
+    const resource = this.resources.get(id);
+    if (!resource) {
+      console.warn(`WeaponManager: Weapon '${id}' has no ammo to add to`);
+      return false;
+    }
+
+    if (!resource.addAmmo(amount)) return false;
+
+    this.events.emit(WeaponManagerEvent.AMMO_COLLECTED, id, amount);
+    return true;
+  }
+
+  /**
+   * Get a weapon's resource by definition id
+   */
+  public getResource(id: string): WeaponResource | undefined {
+    return this.resources.get(id);
   }
 
   /**
    * Get current weapon
    */
-  public getCurrentWeapon(): WeaponBase {
+  public getCurrentWeapon(): WeaponBase | null {
     return this.currentWeapon;
   }
 
   /**
-   * Get weapon by type
+   * Get all weapons (e.g. for hit resolution on weapons still active after switching)
+   */
+  public getWeapons(): WeaponBase[] {
+    return Array.from(this.weapons.values());
+  }
+
+  /**
+   * Get weapon by definition id
+   */
+  public getWeapon(id: string): WeaponBase | undefined {
+    return this.weapons.get(id);
+  }
+
+  /**
+   * Unlock a weapon by definition id
+   * Returns true if it was newly unlocked (and equips it)
+   */
+  public unlockWeapon(id: string): boolean {
+    if (!this.weapons.has(id)) {
+      console.warn(`WeaponManager: Unknown weapon '${id}'`);
+      return false;
+    }
+    if (this.unlocked.has(id)) return false;
+
+    this.unlocked.add(id);
+    this.switchTo(this.weaponOrder.indexOf(id));
+    console.log(`WeaponManager: Unlocked ${this.currentWeapon!.getName()}`);
+    return true;
+  }
+
+  /**
+   * Check if a weapon is unlocked
+   */
+  public isUnlocked(id: string): boolean {
+    return this.unlocked.has(id);
+  }
+
+  /**
+   * Get unlocked weapon ids in cycle order
    */
-  public getWeapon(type: WeaponType): WeaponBase | undefined {
-    return this.weapons.get(type);
+  public getUnlockedWeaponIds(): string[] {
+    return this.weaponOrder.filter(id => this.unlocked.has(id));
   }
 
   /**
    * Set scene (called when scene changes)
+   * Rebuilds weapon instances in the new scene; unlocks and the equipped slot carry over.
+   * The old instances are dropped, not destroyed - their game objects went with the old scene.
    */
-  public setScene(_scene: Phaser.Scene): void {
-    // Scene reference not currently needed but kept for future use
-    // Note: Weapons would need scene update too if they persist across scenes
+  public setScene(scene: Phaser.Scene): void {
+    this.createWeapons(scene);
+    if (this.currentWeapon) {
+      this.events.emit(WeaponManagerEvent.WEAPON_CHANGED, this.currentWeapon);
+    }
   }
 
   /**
@@ -101,5 +306,10 @@ export class WeaponManager {
   public destroy(): void {
     this.weapons.forEach(weapon => weapon.destroy());
     this.weapons.clear();
+    this.resources.forEach(resource => resource.removeAllListeners());
+    this.resources.clear();
+    this.events.removeAllListeners();
+    this.upgradeManager?.events.off(UpgradeEvent.PURCHASED, this.onUpgradePurchased, this);
+    this.upgradeManager = null;
   }
 }
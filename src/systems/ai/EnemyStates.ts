@@ -0,0 +1,199 @@
+import { AIState } from './StateMachine';
+import { Enemy } from '../../entities/Enemy';
+
+/**
+ * Built-in enemy AI states - declared per enemy in EnemyConfig.ai.states
+ */
+export enum EnemyStateId {
+  IDLE = 'idle',
+  PATROL = 'patrol',
+  CHASE = 'chase',
+  ATTACK = 'attack',
+  FLEE = 'flee',       // Runs from the player while Soggy
+  STUNNED = 'stunned', // Stunned/Frozen - always available
+}
+
+/**
+ * What the AI knows about the world each frame
+ */
+export interface EnemyAIContext {
+  target: { x: number; y: number };
+}
+
+export type EnemyState = AIState<Enemy, EnemyAIContext>;
+
+/**
+ * Stand still; look for the player, then start patrolling after a pause
+ */
+export class IdleState implements EnemyState {
+  public readonly id = EnemyStateId.IDLE;
+  private frames: number = 0;
+
+  enter(): void {
+    this.frames = 0;
+  }
+
+  update(enemy: Enemy, context: EnemyAIContext): string | null {
+    enemy.stopMoving();
+
+    if (enemy.hasState(EnemyStateId.CHASE) && enemy.canSeeTarget(context.target)) {
+      return EnemyStateId.CHASE;
+    }
+
+    this.frames++;
+    if (enemy.hasState(EnemyStateId.PATROL) && this.frames >= enemy.getAIConfig().idleFrames) {
+      return EnemyStateId.PATROL;
+    }
+    return null;
+  }
+}
+
+/**
+ * Walk back and forth around the spawn point, turning at ledges and walls
+ */
+export class PatrolState implements EnemyState {
+  public readonly id = EnemyStateId.PATROL;
+  private direction: number = 1;
+
+  enter(enemy: Enemy): void {
+    this.direction = enemy.flipX ? -1 : 1;
+  }
+
+  update(enemy: Enemy, context: EnemyAIContext): string | null {
+    if (enemy.hasState(EnemyStateId.CHASE) && enemy.canSeeTarget(context.target)) {
+      return EnemyStateId.CHASE;
+    }
+
+    const offset = enemy.x - enemy.getHomeX();
+    const distance = enemy.getAIConfig().patrolDistance;
+    if ((offset > distance && this.direction > 0) || (offset < -distance && this.direction < 0)) {
+      this.direction = -this.direction;
+    }
+
+    if (!enemy.walk(this.direction)) {
+      this.direction = -this.direction;
+    }
+    return null;
+  }
+}
+
+/**
+ * Head for the player (across platforms for jumping enemies); attack in range,
+ * give up after losing sight for a while
+ */
+export class ChaseState implements EnemyState {
+  public readonly id = EnemyStateId.CHASE;
+  private lostSightFrames: number = 0;
+  private lastSeen: { x: number; y: number } = { x: 0, y: 0 };
+
+  enter(enemy: Enemy, context: EnemyAIContext): void {
+    this.lostSightFrames = 0;
+    this.lastSeen = { x: context.target.x, y: context.target.y };
+    enemy.faceToward(context.target.x);
+  }
+
+  update(enemy: Enemy, context: EnemyAIContext): string | null {
+    if (enemy.canSeeTarget(context.target)) {
+      this.lostSightFrames = 0;
+      this.lastSeen = { x: context.target.x, y: context.target.y };
+
+      if (enemy.hasState(EnemyStateId.ATTACK) && enemy.shouldStartAttack(context.target)) {
+        return EnemyStateId.ATTACK;
+      }
+    } else {
+      this.lostSightFrames++;
+      if (this.lostSightFrames >= enemy.getAIConfig().loseSightFrames) {
+        return enemy.getDefaultState();
+      }
+    }
+
+    // Pathfinds across platforms if it can jump, otherwise stops at ledges;
+    // waits once it reaches the last known position
+    enemy.moveToward(this.lastSeen);
+    return null;
+  }
+}
+
+/**
+ * Run the enemy's telegraphed attack to completion
+ */
+export class AttackState implements EnemyState {
+  public readonly id = EnemyStateId.ATTACK;
+
+  enter(enemy: Enemy, context: EnemyAIContext): void {
+    enemy.faceToward(context.target.x);
+    enemy.startAttack();
+  }
+
+  update(enemy: Enemy): string | null {
+    enemy.stopMoving(0.3);
+    enemy.updateAttack();
+
+    if (enemy.isAttacking()) return null;
+    return enemy.hasState(EnemyStateId.CHASE) ? EnemyStateId.CHASE : enemy.getDefaultState();
+  }
+
+  exit(enemy: Enemy): void {
+    enemy.cancelAttack();
+  }
+}
+
+/**
+ * Run away from the player while Soggy (stops when cornered)
+ */
+export class FleeState implements EnemyState {
+  public readonly id = EnemyStateId.FLEE;
+
+  update(enemy: Enemy, context: EnemyAIContext): string | null {
+    if (!enemy.getIsSoggy()) {
+      return enemy.getDefaultState();
+    }
+
+    const away = enemy.x < context.target.x ? -1 : 1;
+    if (Math.abs(enemy.x - context.target.x) > enemy.getAIConfig().sightRange) {
+      enemy.stopMoving();
+    } else {
+      enemy.walk(away);
+    }
+    return null;
+  }
+}
+
+/**
+ * Stunned or Frozen - no AI until the effect wears off
+ */
+export class StunnedState implements EnemyState {
+  public readonly id = EnemyStateId.STUNNED;
+
+  update(enemy: Enemy): string | null {
+    if (!enemy.getStatusEffects().canMove()) {
+      enemy.stopMoving(1);
+    } else {
+      enemy.stopMoving();
+    }
+
+    return enemy.getStatusEffects().canAct() ? enemy.getDefaultState() : null;
+  }
+}
+
+/**
+ * Create a fresh state instance (null for unknown ids)
+ */
+export function createEnemyState(id: string): EnemyState | null {
+  switch (id) {
+    case EnemyStateId.IDLE:
+      return new IdleState();
+    case EnemyStateId.PATROL:
+      return new PatrolState();
+    case EnemyStateId.CHASE:
+      return new ChaseState();
+    case EnemyStateId.ATTACK:
+      return new AttackState();
+    case EnemyStateId.FLEE:
+      return new FleeState();
+    case EnemyStateId.STUNNED:
+      return new StunnedState();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,325 @@
+import Phaser from 'phaser';
+import { GRAVITY } from '../../game/constants';
+
+/**
+ * How an agent gets from one node to the next
+ */
+export enum NavLinkType {
+  WALK = 'walk', // Neighbouring tile on the same surface
+  DROP = 'drop', // Walk off a ledge and fall
+  JUMP = 'jump', // Jump (up, down or across a gap)
+}
+
+/**
+ * Movement limits the graph is built for - jump links depend on them
+ */
+export interface NavProfile {
+  jumpVelocity: number; // Negative = up, like PLAYER_JUMP_VELOCITY
+  speed: number;        // Horizontal pixels per second
+  height: number;       // Body height in pixels (headroom needed)
+}
+
+/**
+ * A tile an agent can stand in (the tile below it collides)
+ */
+export interface NavNode {
+  id: number;
+  col: number;
+  row: number;
+  x: number;       // Centre of the tile
+  y: number;       // Feet - top of the supporting tile
+  surface: number; // Nodes on the same run of floor share a surface
+}
+
+export interface NavLink {
+  to: number;
+  type: NavLinkType;
+  cost: number;
+}
+
+/**
+ * One step of a path - get from `from` to `node` the way `type` says
+ */
+export interface NavStep {
+  from: NavNode;
+  node: NavNode;
+  type: NavLinkType;
+}
+
+/**
+ * NavGraph - platformer navigation graph over a tile collision layer
+ * Walk links join neighbouring standable tiles; drop links fall off ledges to the
+ * floor below; jump links are any landing reachable with the profile's jump
+ * velocity and speed under GRAVITY (with a clear arc).
+ * Queried with A*; build a new one when the tiles change (see Navigator).
+ */
+export class NavGraph {
+  private readonly JUMP_MARGIN = 4;     // Pixels kept below the apex so jumps aren't pixel-perfect
+  private readonly JUMP_PENALTY = 4;    // Extra cost (in tiles) so walking is preferred
+  private readonly DROP_PENALTY = 1;
+  private readonly ARC_SAMPLES = 12;
+  private readonly SNAP_ROWS = 12;      // How far below a position to look for floor
+
+  private layer: Phaser.Tilemaps.TilemapLayer;
+  private profile: NavProfile;
+  private tileSize: number;
+  private heightTiles: number;
+  private nodes: Map<number, NavNode> = new Map();
+  private links: Map<number, NavLink[]> = new Map();
+  private surfaces: NavNode[][] = [];
+
+  constructor(layer: Phaser.Tilemaps.TilemapLayer, profile: NavProfile) {
+    this.layer = layer;
+    this.profile = profile;
+    this.tileSize = layer.tilemap.tileWidth;
+    this.heightTiles = Math.max(1, Math.ceil(profile.height / this.tileSize));
+
+    this.buildNodes();
+    this.buildWalkLinks();
+    this.buildDropLinks();
+    this.buildJumpLinks();
+
+    let linkCount = 0;
+    this.links.forEach(links => linkCount += links.length);
+    console.log(`NavGraph: ${this.nodes.size} nodes on ${this.surfaces.length} surfaces, ${linkCount} links (jump ${profile.jumpVelocity})`);
+  }
+
+  private solid(col: number, row: number): boolean {
+    const tile = this.layer.getTileAt(col, row);
+    return !!tile && tile.collides;
+  }
+
+  private standable(col: number, row: number): boolean {
+    if (col < 0 || col >= this.layer.layer.width || row < 0 || row >= this.layer.layer.height - 1) return false;
+    if (!this.solid(col, row + 1)) return false;
+    for (let i = 0; i < this.heightTiles; i++) {
+      if (this.solid(col, row - i)) return false;
+    }
+    return true;
+  }
+
+  private nodeId(col: number, row: number): number {
+    return row * this.layer.layer.width + col;
+  }
+
+  private addLink(from: NavNode, to: NavNode, type: NavLinkType, cost: number): void {
+    this.links.get(from.id)!.push({ to: to.id, type, cost });
+  }
+
+  /**
+   * Standable tiles, grouped into surfaces by scanning each row left to right
+   */
+  private buildNodes(): void {
+    const { width, height } = this.layer.layer;
+
+    for (let row = 0; row < height; row++) {
+      let surface: NavNode[] | null = null;
+      for (let col = 0; col < width; col++) {
+        if (!this.standable(col, row)) {
+          surface = null;
+          continue;
+        }
+
+        if (!surface) {
+          surface = [];
+          this.surfaces.push(surface);
+        }
+
+        const node: NavNode = {
+          id: this.nodeId(col, row),
+          col,
+          row,
+          x: (col + 0.5) * this.tileSize,
+          y: (row + 1) * this.tileSize,
+          surface: this.surfaces.length - 1,
+        };
+        surface.push(node);
+        this.nodes.set(node.id, node);
+        this.links.set(node.id, []);
+      }
+    }
+  }
+
+  private buildWalkLinks(): void {
+    this.surfaces.forEach(surface => {
+      for (let i = 1; i < surface.length; i++) {
+        this.addLink(surface[i - 1], surface[i], NavLinkType.WALK, 1);
+        this.addLink(surface[i], surface[i - 1], NavLinkType.WALK, 1);
+      }
+    });
+  }
+
+  /**
+   * Step off either end of a surface and fall straight down to the next floor
+   */
+  private buildDropLinks(): void {
+    this.surfaces.forEach(surface => {
+      const ends: [NavNode, number][] = [[surface[0], -1], [surface[surface.length - 1], 1]];
+      ends.forEach(([edge, direction]) => {
+        const col = edge.col + direction;
+        if (this.solid(col, edge.row) || this.solid(col, edge.row + 1)) return;
+
+        for (let row = edge.row + 1; row < this.layer.layer.height - 1; row++) {
+          if (this.solid(col, row)) return; // Ceiling of something without headroom
+          const landing = this.nodes.get(this.nodeId(col, row));
+          if (landing) {
+            // Never cheaper than the tiles covered, or the A* heuristic would overestimate
+            this.addLink(edge, landing, NavLinkType.DROP, 1 + (row - edge.row) + this.DROP_PENALTY);
+            return;
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * From each node, the closest reachable landing on every other surface
+   */
+  private buildJumpLinks(): void {
+    this.nodes.forEach(from => {
+      this.surfaces.forEach((surface, index) => {
+        if (index === from.surface) return;
+
+        let best: NavNode | null = null;
+        let bestDistance = Infinity;
+        for (const to of surface) {
+          const distance = Math.abs(to.col - from.col) + Math.abs(to.row - from.row);
+          if (distance < bestDistance && this.canJump(from, to)) {
+            best = to;
+            bestDistance = distance;
+          }
+        }
+
+        if (best) {
+          this.addLink(from, best, NavLinkType.JUMP, bestDistance + this.JUMP_PENALTY);
+        }
+      });
+    });
+  }
+
+  /**
+   * Airtime to land `rise` pixels higher (negative = lower) on the way down,
+   * or null if the jump can't get that high
+   */
+  public getAirtime(rise: number): number | null {
+    const velocity = Math.abs(this.profile.jumpVelocity);
+    const apex = (velocity * velocity) / (2 * GRAVITY);
+    if (rise > apex - this.JUMP_MARGIN) return null;
+    return (velocity + Math.sqrt(velocity * velocity - 2 * GRAVITY * rise)) / GRAVITY;
+  }
+
+  /**
+   * High enough, fast enough, and nothing solid along the arc
+   */
+  private canJump(from: NavNode, to: NavNode): boolean {
+    const rise = from.y - to.y;
+    const airtime = this.getAirtime(rise);
+    if (airtime === null) return false;
+
+    const dx = to.x - from.x;
+    if (Math.abs(dx) > this.profile.speed * airtime) return false;
+
+    const velocityX = dx / airtime;
+    for (let i = 1; i < this.ARC_SAMPLES; i++) {
+      const t = (airtime * i) / this.ARC_SAMPLES;
+      const x = from.x + velocityX * t;
+      const feet = from.y + this.profile.jumpVelocity * t + 0.5 * GRAVITY * t * t;
+      const col = Math.floor(x / this.tileSize);
+      const top = Math.floor((feet - this.profile.height + 1) / this.tileSize);
+      const bottom = Math.floor((feet - 1) / this.tileSize);
+      for (let row = top; row <= bottom; row++) {
+        if (this.solid(col, row)) return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Node an agent with its feet at (x, y) is standing on - or, if it's in the
+   * air, the first one below it
+   */
+  public getNodeAt(x: number, y: number): NavNode | null {
+    const col = Math.floor(x / this.tileSize);
+    const row = Math.floor((y - 1) / this.tileSize);
+
+    for (let i = 0; i <= this.SNAP_ROWS; i++) {
+      // Prefer the column itself, then its neighbours (feet hanging over an edge)
+      for (const offset of [0, -1, 1]) {
+        const node = this.nodes.get(this.nodeId(col + offset, row + i));
+        if (node && col + offset >= 0 && col + offset < this.layer.layer.width) return node;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * A* from one position to another (both feet positions)
+   * Returns the steps after the start node, or null if unreachable
+   */
+  public findPath(fromX: number, fromY: number, toX: number, toY: number): NavStep[] | null {
+    const start = this.getNodeAt(fromX, fromY);
+    const goal = this.getNodeAt(toX, toY);
+    if (!start || !goal) return null;
+    if (start.id === goal.id) return [];
+
+    // Tiles apart - every link costs at least the tiles it covers, so this never overestimates
+    const heuristic = (node: NavNode) => Math.abs(node.col - goal.col) + Math.abs(node.row - goal.row);
+    const open: number[] = [start.id];
+    const cameFrom: Map<number, { from: number; type: NavLinkType }> = new Map();
+    const gScore: Map<number, number> = new Map([[start.id, 0]]);
+    const fScore: Map<number, number> = new Map([[start.id, heuristic(start)]]);
+    const closed: Set<number> = new Set();
+
+    while (open.length > 0) {
+      // Small graphs - a linear scan beats maintaining a heap
+      let bestIndex = 0;
+      for (let i = 1; i < open.length; i++) {
+        if (fScore.get(open[i])! < fScore.get(open[bestIndex])!) bestIndex = i;
+      }
+      const current = open.splice(bestIndex, 1)[0];
+
+      if (current === goal.id) {
+        return this.buildPath(cameFrom, current);
+      }
+      closed.add(current);
+
+      for (const link of this.links.get(current) ?? []) {
+        if (closed.has(link.to)) continue;
+
+        const score = gScore.get(current)! + link.cost;
+        if (score >= (gScore.get(link.to) ?? Infinity)) continue;
+
+        cameFrom.set(link.to, { from: current, type: link.type });
+        gScore.set(link.to, score);
+        fScore.set(link.to, score + heuristic(this.nodes.get(link.to)!));
+        if (!open.includes(link.to)) open.push(link.to);
+      }
+    }
+
+    return null;
+  }
+
+  private buildPath(cameFrom: Map<number, { from: number; type: NavLinkType }>, end: number): NavStep[] {
+    const steps: NavStep[] = [];
+    let current = end;
+    let previous = cameFrom.get(current);
+    while (previous) {
+      steps.unshift({ from: this.nodes.get(previous.from)!, node: this.nodes.get(current)!, type: previous.type });
+      current = previous.from;
+      previous = cameFrom.get(current);
+    }
+    return steps;
+  }
+
+  public getProfile(): NavProfile {
+    return this.profile;
+  }
+
+  public getNodes(): NavNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  public getLinks(nodeId: number): NavLink[] {
+    return this.links.get(nodeId) ?? [];
+  }
+}
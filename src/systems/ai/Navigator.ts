@@ -0,0 +1,65 @@
+import Phaser from 'phaser';
+import { NavGraph, NavProfile, NavStep } from './NavGraph';
+
+/**
+ * Emit on the scene's events after editing the collision layer
+ * (LevelScene.setWorldTile does this for you)
+ */
+export enum NavEvent {
+  TILES_CHANGED = 'nav-tiles-changed',
+}
+
+/**
+ * Navigator - the level's pathfinding service
+ * Keeps one NavGraph per movement profile (enemies with the same jump and speed
+ * share one), built on first use and thrown away whenever the tiles change.
+ */
+export class Navigator {
+  private scene: Phaser.Scene;
+  private layer: Phaser.Tilemaps.TilemapLayer;
+  private graphs: Map<string, NavGraph> = new Map();
+
+  constructor(scene: Phaser.Scene, layer: Phaser.Tilemaps.TilemapLayer) {
+    this.scene = scene;
+    this.layer = layer;
+
+    scene.events.on(NavEvent.TILES_CHANGED, this.rebuild, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  /**
+   * Graph for a profile, building it if needed
+   */
+  public getGraph(profile: NavProfile): NavGraph {
+    const key = `${profile.jumpVelocity}:${Math.round(profile.speed)}:${profile.height}`;
+    let graph = this.graphs.get(key);
+    if (!graph) {
+      graph = new NavGraph(this.layer, profile);
+      this.graphs.set(key, graph);
+    }
+    return graph;
+  }
+
+  /**
+   * A* path between two feet positions for an agent with this profile
+   */
+  public findPath(profile: NavProfile, from: { x: number; y: number }, to: { x: number; y: number }): NavStep[] | null {
+    return this.getGraph(profile).findPath(from.x, from.y, to.x, to.y);
+  }
+
+  /**
+   * Drop every graph - they're rebuilt from the current tiles on the next query
+   */
+  public rebuild(): void {
+    if (this.graphs.size > 0) {
+      console.log('Navigator: tiles changed, rebuilding nav graphs');
+    }
+    this.graphs.clear();
+  }
+
+  public destroy(): void {
+    this.scene.events.off(NavEvent.TILES_CHANGED, this.rebuild, this);
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+    this.graphs.clear();
+  }
+}
@@ -0,0 +1,46 @@
+import Phaser from 'phaser';
+import { Raycast } from '../../utils/Raycast';
+
+/**
+ * Perception helpers for AI - sight and footing against the 'world' tile layer
+ */
+export class Perception {
+  /**
+   * Target within range with no colliding tile in between
+   * Without a layer only the range is checked
+   */
+  public static canSee(
+    from: { x: number; y: number },
+    target: { x: number; y: number },
+    range: number,
+    layer: Phaser.Tilemaps.TilemapLayer | null
+  ): boolean {
+    if (Phaser.Math.Distance.Between(from.x, from.y, target.x, target.y) > range) return false;
+    if (!layer) return true;
+
+    return Raycast.againstTiles(layer, from.x, from.y, target.x, target.y) === null;
+  }
+
+  /**
+   * Solid ground just past the body's leading edge (false = ledge ahead)
+   * Without a layer there's nothing to fall off
+   */
+  public static isGroundAhead(
+    body: Phaser.Physics.Arcade.Body,
+    direction: number,
+    layer: Phaser.Tilemaps.TilemapLayer | null
+  ): boolean {
+    if (!layer) return true;
+
+    const x = direction < 0 ? body.left - 2 : body.right + 2;
+    const tile = layer.getTileAtWorldXY(x, body.bottom + 2);
+    return !!tile && tile.collides;
+  }
+
+  /**
+   * Body is pressed against a wall in this direction
+   */
+  public static isWallAhead(body: Phaser.Physics.Arcade.Body, direction: number): boolean {
+    return direction < 0 ? body.blocked.left : body.blocked.right;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * One state of a finite state machine
+ * update returns the id of the state to switch to, or null to stay
+ */
+export interface AIState<TOwner, TContext> {
+  readonly id: string;
+  enter?(owner: TOwner, context: TContext): void;
+  update(owner: TOwner, context: TContext): string | null;
+  exit?(owner: TOwner, context: TContext): void;
+}
+
+/**
+ * StateMachine - Generic FSM driving an owner (e.g. an Enemy)
+ * States are instances, so they can keep per-owner data (timers, direction)
+ */
+export class StateMachine<TOwner, TContext> {
+  private owner: TOwner;
+  private states: Map<string, AIState<TOwner, TContext>> = new Map();
+  private current: AIState<TOwner, TContext> | null = null;
+
+  constructor(owner: TOwner) {
+    this.owner = owner;
+  }
+
+  /**
+   * Register a state (replaces one with the same id)
+   */
+  public addState(state: AIState<TOwner, TContext>): this {
+    this.states.set(state.id, state);
+    return this;
+  }
+
+  /**
+   * Check if a state is registered
+   */
+  public hasState(id: string): boolean {
+    return this.states.has(id);
+  }
+
+  /**
+   * Switch state, running exit/enter hooks - returns false for unknown ids
+   */
+  public transition(id: string, context: TContext): boolean {
+    const next = this.states.get(id);
+    if (!next) {
+      console.warn(`StateMachine: Unknown state '${id}'`);
+      return false;
+    }
+
+    this.current?.exit?.(this.owner, context);
+    this.current = next;
+    next.enter?.(this.owner, context);
+    return true;
+  }
+
+  /**
+   * Run the current state and follow any transition it asks for
+   */
+  public update(context: TContext): void {
+    if (!this.current) return;
+
+    const nextId = this.current.update(this.owner, context);
+    if (nextId && nextId !== this.current.id) {
+      this.transition(nextId, context);
+    }
+  }
+
+  /**
+   * Id of the current state (null before the first transition)
+   */
+  public getCurrentState(): string | null {
+    return this.current?.id ?? null;
+  }
+}
@@ -0,0 +1,103 @@
+import { EnemyArchetypes } from '../../entities/enemies/EnemyArchetypes';
+
+/**
+ * One group of enemies in a wave
+ */
+export interface WaveSpawn {
+  archetype: string;                     // EnemyArchetypes type, e.g. 'seagull'
+  count?: number;                        // Default 1
+  interval?: number;                     // Frames between each enemy (default 30)
+  spawner?: string;                      // Name of an 'enemy-spawner' point (default: spawners in the zone)
+  properties?: Record<string, unknown>;  // Per-enemy overrides, as on Tiled enemy objects
+}
+
+/**
+ * A wave starts `delay` frames after the encounter starts or the previous wave is cleared
+ * Its groups spawn side by side; it's cleared when all of its enemies are gone
+ */
+export interface Wave {
+  delay?: number; // Default 60
+  spawns: WaveSpawn[];
+}
+
+/**
+ * WaveScript - Parses and validates the `waves` JSON property on Tiled encounter zones
+ *
+ *   [{ "spawns": [{ "archetype": "seagull", "count": 2 }] },
+ *    { "delay": 90, "spawns": [{ "archetype": "bruiser", "spawner": "gym-door" }] }]
+ */
+export class WaveScript {
+  /**
+   * Parse a wave script - invalid waves and groups are logged and skipped
+   */
+  public static parse(source: string, label: string): Wave[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(source);
+    } catch (error) {
+      console.error(`WaveScript: '${label}' waves are not valid JSON:`, error);
+      return [];
+    }
+
+    if (!Array.isArray(data)) {
+      console.error(`WaveScript: '${label}' waves must be an array`);
+      return [];
+    }
+
+    const waves: Wave[] = [];
+    data.forEach((entry, index) => {
+      const prefix = `'${label}' wave ${index + 1}`;
+      const wave = WaveScript.parseWave(entry, prefix);
+      if (wave) waves.push(wave);
+    });
+    return waves;
+  }
+
+  private static parseWave(entry: unknown, prefix: string): Wave | null {
+    if (typeof entry !== 'object' || entry === null || !Array.isArray((entry as Wave).spawns)) {
+      console.warn(`WaveScript: ${prefix} needs a 'spawns' array - skipped`);
+      return null;
+    }
+
+    const wave = entry as Wave;
+    if (wave.delay !== undefined && !WaveScript.isFrames(wave.delay)) {
+      console.warn(`WaveScript: ${prefix} 'delay' must be a number >= 0 - skipped`);
+      return null;
+    }
+
+    const spawns = wave.spawns.filter((spawn, index) => WaveScript.isValidSpawn(spawn, `${prefix} group ${index + 1}`));
+    if (spawns.length === 0) {
+      console.warn(`WaveScript: ${prefix} has no valid groups - skipped`);
+      return null;
+    }
+    return { delay: wave.delay, spawns };
+  }
+
+  private static isValidSpawn(spawn: WaveSpawn, prefix: string): boolean {
+    if (typeof spawn !== 'object' || spawn === null) {
+      console.warn(`WaveScript: ${prefix} must be an object - skipped`);
+      return false;
+    }
+    if (typeof spawn.archetype !== 'string' || !EnemyArchetypes.has(spawn.archetype)) {
+      console.warn(`WaveScript: ${prefix} has unknown archetype '${spawn.archetype}' - skipped`);
+      return false;
+    }
+    if (spawn.count !== undefined && !(WaveScript.isFrames(spawn.count) && spawn.count >= 1)) {
+      console.warn(`WaveScript: ${prefix} 'count' must be a number >= 1 - skipped`);
+      return false;
+    }
+    if (spawn.interval !== undefined && !WaveScript.isFrames(spawn.interval)) {
+      console.warn(`WaveScript: ${prefix} 'interval' must be a number >= 0 - skipped`);
+      return false;
+    }
+    if (spawn.spawner !== undefined && typeof spawn.spawner !== 'string') {
+      console.warn(`WaveScript: ${prefix} 'spawner' must be a spawner name - skipped`);
+      return false;
+    }
+    return true;
+  }
+
+  private static isFrames(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  }
+}
@@ -0,0 +1,100 @@
+import Phaser from 'phaser';
+import { BASE_WIDTH, BASE_HEIGHT } from '../../game/constants';
+import { Boss, BossEvent } from '../../entities/bosses/Boss';
+
+/**
+ * BossHud - screen-wide boss bar along the bottom: name, health, and the
+ * saturation that makes it Soggy (the bar turns blue while health can be hit)
+ * Health and saturation are read every frame; shown from the intro, gone after the outro
+ */
+export class BossHud {
+  private readonly MARGIN = 24;
+  private readonly HEALTH_HEIGHT = 8;
+  private readonly SATURATION_HEIGHT = 4;
+  private readonly Y = BASE_HEIGHT - 26;
+
+  private scene: Phaser.Scene;
+  private boss: Boss;
+  private bars: Phaser.GameObjects.Graphics;
+  private nameText: Phaser.GameObjects.Text;
+  private visible: boolean = false;
+  private fill: number = 0; // Health shown, animates up during the intro
+
+  constructor(scene: Phaser.Scene, boss: Boss) {
+    this.scene = scene;
+    this.boss = boss;
+
+    this.bars = scene.add.graphics();
+    this.nameText = scene.add.text(this.MARGIN, this.Y - 2, boss.getBossName(), {
+      fontFamily: 'Arial Black',
+      fontSize: '10px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 3,
+    });
+    this.nameText.setOrigin(0, 1);
+    [this.bars, this.nameText].forEach(obj => {
+      obj.setScrollFactor(0);
+      obj.setDepth(9000);
+      obj.setVisible(false);
+    });
+
+    boss.on(BossEvent.INTRO_STARTED, this.show, this);
+    boss.on(BossEvent.OUTRO_STARTED, this.hide, this);
+    boss.once(Phaser.GameObjects.Events.DESTROY, this.destroy, this);
+    scene.events.on(Phaser.Scenes.Events.UPDATE, this.update, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  private show(): void {
+    this.visible = true;
+    this.fill = 0;
+    this.bars.setVisible(true);
+    this.nameText.setVisible(true);
+  }
+
+  private hide(): void {
+    this.scene.tweens.add({
+      targets: [this.bars, this.nameText],
+      alpha: 0,
+      duration: 600,
+    });
+  }
+
+  private update(): void {
+    if (!this.visible || !this.boss.active) return;
+
+    const width = BASE_WIDTH - this.MARGIN * 2;
+    const health = this.boss.getHealth() / this.boss.getMaxHealth();
+    const saturation = this.boss.getIsSoggy() ? 1 : this.boss.getSaturation() / this.boss.getMaxSaturation();
+
+    // Fill up during the intro, then track health
+    this.fill = Math.min(health, this.fill + 0.02);
+
+    this.bars.clear();
+    this.bars.fillStyle(0x000000, 0.6);
+    this.bars.fillRect(this.MARGIN - 1, this.Y - 1, width + 2, this.HEALTH_HEIGHT + this.SATURATION_HEIGHT + 3);
+
+    this.bars.fillStyle(this.boss.isVulnerable() ? 0x3399ff : 0xcc2222, 1);
+    this.bars.fillRect(this.MARGIN, this.Y, width * Math.max(0, this.fill), this.HEALTH_HEIGHT);
+
+    this.bars.fillStyle(0x88ccff, 1);
+    this.bars.fillRect(this.MARGIN, this.Y + this.HEALTH_HEIGHT + 1, width * Math.min(1, saturation), this.SATURATION_HEIGHT);
+
+    // Health thresholds of later phases
+    this.bars.fillStyle(0xffffff, 0.8);
+    this.boss.getPhases().forEach(phase => {
+      if (phase.healthBelow === undefined) return;
+      this.bars.fillRect(this.MARGIN + width * phase.healthBelow, this.Y, 1, this.HEALTH_HEIGHT);
+    });
+  }
+
+  public destroy(): void {
+    this.scene.events.off(Phaser.Scenes.Events.UPDATE, this.update, this);
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+    this.boss.off(BossEvent.INTRO_STARTED, this.show, this);
+    this.boss.off(BossEvent.OUTRO_STARTED, this.hide, this);
+    this.bars.destroy();
+    this.nameText.destroy();
+  }
+}
@@ -0,0 +1,61 @@
+import Phaser from 'phaser';
+import { BASE_WIDTH, BASE_HEIGHT } from '../../game/constants';
+import { EncounterManager, EncounterEvent } from '../EncounterManager';
+import { EncounterZone } from '../../entities/EncounterZone';
+
+/**
+ * EncounterHud - "WAVE 1/3" and "CLEAR!" banners across the middle of the screen
+ */
+export class EncounterHud {
+  private readonly BANNER_HOLD_MS = 900;
+
+  private scene: Phaser.Scene;
+  private manager: EncounterManager;
+  private banner: Phaser.GameObjects.Text;
+
+  constructor(scene: Phaser.Scene, manager: EncounterManager) {
+    this.scene = scene;
+    this.manager = manager;
+
+    this.banner = scene.add.text(BASE_WIDTH / 2, BASE_HEIGHT / 3, '', {
+      fontFamily: 'Arial Black',
+      fontSize: '20px',
+      color: '#ffcc00',
+      stroke: '#000000',
+      strokeThickness: 4,
+    });
+    this.banner.setOrigin(0.5);
+    this.banner.setScrollFactor(0);
+    this.banner.setDepth(9000);
+    this.banner.setAlpha(0);
+
+    manager.events.on(EncounterEvent.WAVE_STARTED, this.onWaveStarted, this);
+    manager.events.on(EncounterEvent.CLEARED, this.onCleared, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  private onWaveStarted(_zone: EncounterZone, wave: number, totalWaves: number): void {
+    this.show(totalWaves > 1 ? `WAVE ${wave}/${totalWaves}` : 'FIGHT!');
+  }
+
+  private onCleared(): void {
+    this.show('CLEAR!');
+  }
+
+  private show(text: string): void {
+    this.scene.tweens.killTweensOf(this.banner);
+    this.banner.setText(text);
+    this.banner.setAlpha(1);
+    this.scene.tweens.add({
+      targets: this.banner,
+      alpha: 0,
+      delay: this.BANNER_HOLD_MS,
+      duration: 300,
+    });
+  }
+
+  public destroy(): void {
+    this.manager.events.off(EncounterEvent.WAVE_STARTED, this.onWaveStarted, this);
+    this.manager.events.off(EncounterEvent.CLEARED, this.onCleared, this);
+  }
+}
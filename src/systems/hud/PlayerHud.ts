@@ -0,0 +1,68 @@
+import Phaser from 'phaser';
+import { Player, PlayerEvent } from '../../entities/Player';
+import { LivesManager, LivesEvent } from '../LivesManager';
+
+/**
+ * PlayerHud - health bar and lives counter (top-left, beside the fullscreen button)
+ * Driven by player/lives events; unbinds on scene shutdown
+ * since the LivesManager outlives the scene
+ */
+export class PlayerHud {
+  private readonly BAR_WIDTH = 80;
+  private readonly BAR_HEIGHT = 6;
+  private readonly X = 56; // Right of the fullscreen button
+  private readonly Y = 10;
+
+  private scene: Phaser.Scene;
+  private player: Player;
+  private livesManager: LivesManager;
+  private bar: Phaser.GameObjects.Graphics;
+  private livesText: Phaser.GameObjects.Text;
+
+  constructor(scene: Phaser.Scene, player: Player, livesManager: LivesManager) {
+    this.scene = scene;
+    this.player = player;
+    this.livesManager = livesManager;
+
+    this.bar = scene.add.graphics();
+    this.livesText = scene.add.text(this.X, this.Y + this.BAR_HEIGHT + 4, '', {
+      fontFamily: 'Arial',
+      fontSize: '10px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    });
+    [this.bar, this.livesText].forEach(obj => {
+      obj.setScrollFactor(0);
+      obj.setDepth(9000);
+    });
+
+    player.on(PlayerEvent.HEALTH_CHANGED, this.renderHealth, this);
+    livesManager.events.on(LivesEvent.LIVES_CHANGED, this.renderLives, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+
+    this.renderHealth(player.getHealth(), player.getMaxHealth());
+    this.renderLives(livesManager.getLives());
+  }
+
+  private renderHealth(health: number, maxHealth: number): void {
+    const fill = maxHealth > 0 ? health / maxHealth : 0;
+    const color = fill > 0.5 ? 0x33ff66 : fill > 0.25 ? 0xffcc00 : 0xff3333;
+
+    this.bar.clear();
+    this.bar.fillStyle(0x000000, 0.6);
+    this.bar.fillRect(this.X, this.Y, this.BAR_WIDTH, this.BAR_HEIGHT);
+    this.bar.fillStyle(color, 1);
+    this.bar.fillRect(this.X, this.Y, this.BAR_WIDTH * fill, this.BAR_HEIGHT);
+  }
+
+  private renderLives(lives: number): void {
+    this.livesText.setText(`LIVES ${lives}`);
+  }
+
+  public destroy(): void {
+    this.player.off(PlayerEvent.HEALTH_CHANGED, this.renderHealth, this);
+    this.livesManager.events.off(LivesEvent.LIVES_CHANGED, this.renderLives, this);
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+}
@@ -0,0 +1,157 @@
+import Phaser from 'phaser';
+import { BASE_WIDTH, BASE_HEIGHT } from '../../game/constants';
+import { InputMapper, GameAction } from '../InputMapper';
+import { UpgradeManager, UpgradeTrack } from '../UpgradeManager';
+import { WeaponManager } from '../WeaponManager';
+
+/**
+ * UpgradeMenu - in-level overlay for buying weapon upgrades with Gatsby Sauce
+ * Lists upgrade tracks for unlocked weapons; the scene pauses gameplay while open
+ * Up/Down select, Jump or Primary Fire buys, Upgrade Menu/Pause closes
+ */
+export class UpgradeMenu {
+  private readonly ROW_HEIGHT = 14;
+
+  private scene: Phaser.Scene;
+  private inputMapper: InputMapper;
+  private upgradeManager: UpgradeManager;
+  private weaponManager: WeaponManager;
+
+  private container: Phaser.GameObjects.Container;
+  private titleText: Phaser.GameObjects.Text;
+  private rowTexts: Phaser.GameObjects.Text[] = [];
+  private tracks: UpgradeTrack[] = [];
+  private selectedIndex: number = 0;
+  private open: boolean = false;
+
+  constructor(scene: Phaser.Scene, inputMapper: InputMapper, upgradeManager: UpgradeManager, weaponManager: WeaponManager) {
+    this.scene = scene;
+    this.inputMapper = inputMapper;
+    this.upgradeManager = upgradeManager;
+    this.weaponManager = weaponManager;
+
+    const background = scene.add.rectangle(BASE_WIDTH / 2, BASE_HEIGHT / 2, BASE_WIDTH - 80, BASE_HEIGHT - 60, 0x000000, 0.85);
+    background.setStrokeStyle(1, 0xffffff, 0.8);
+
+    this.titleText = scene.add.text(BASE_WIDTH / 2, 40, '', {
+      fontFamily: 'Arial',
+      fontSize: '14px',
+      color: '#ffcc00',
+    }).setOrigin(0.5, 0);
+
+    const hintText = scene.add.text(BASE_WIDTH / 2, BASE_HEIGHT - 45, 'UP/DOWN select   JUMP buy   U close', {
+      fontFamily: 'Arial',
+      fontSize: '10px',
+      color: '#888888',
+    }).setOrigin(0.5, 0);
+
+    this.container = scene.add.container(0, 0, [background, this.titleText, hintText]);
+    this.container.setScrollFactor(0, 0, true);
+    this.container.setDepth(9500);
+    this.container.setVisible(false);
+  }
+
+  public isOpen(): boolean {
+    return this.open;
+  }
+
+  public show(): void {
+    this.open = true;
+    this.selectedIndex = 0;
+    this.container.setVisible(true);
+    this.refresh();
+  }
+
+  public hide(): void {
+    this.open = false;
+    this.container.setVisible(false);
+  }
+
+  /**
+   * Handle menu input (call every frame while open, after InputMapper.update)
+   */
+  public update(): void {
+    if (!this.open) return;
+
+    if (this.inputMapper.isActionJustPressed(GameAction.UPGRADE_MENU) ||
+        this.inputMapper.isActionJustPressed(GameAction.PAUSE)) {
+      this.hide();
+      return;
+    }
+
+    if (this.tracks.length === 0) return;
+
+    if (this.inputMapper.isActionJustPressed(GameAction.MOVE_UP)) {
+      this.selectedIndex = (this.selectedIndex - 1 + this.tracks.length) % this.tracks.length;
+      this.refresh();
+    } else if (this.inputMapper.isActionJustPressed(GameAction.MOVE_DOWN)) {
+      this.selectedIndex = (this.selectedIndex + 1) % this.tracks.length;
+      this.refresh();
+    }
+
+    if (this.inputMapper.isActionJustPressed(GameAction.JUMP) ||
+        this.inputMapper.isActionJustPressed(GameAction.PRIMARY_FIRE)) {
+      this.buy(this.selectedIndex);
+    }
+  }
+
+  private buy(index: number): void {
+    const track = this.tracks[index];
+    if (!track) return;
+
+    // TODO: Play purchase (or can't afford) sound
+    this.upgradeManager.purchase(track.id);
+    this.refresh();
+  }
+
+  /**
+   * Rebuild the track list (unlocked weapons only) and redraw rows
+   */
+  private refresh(): void {
+    this.titleText.setText(`UPGRADES - Gatsby Sauce: ${this.upgradeManager.getCurrency()}`);
+
+    this.tracks = this.weaponManager.getUnlockedWeaponIds()
+      .flatMap(id => this.upgradeManager.getTracks(id));
+    this.selectedIndex = Math.min(this.selectedIndex, Math.max(0, this.tracks.length - 1));
+
+    this.rowTexts.forEach(text => text.destroy());
+    this.rowTexts = [];
+
+    if (this.tracks.length === 0) {
+      this.addRow(0, 'No upgrades available yet', '#888888');
+      return;
+    }
+
+    this.tracks.forEach((track, index) => {
+      const weaponName = this.weaponManager.getWeapon(track.weapon)?.getName() ?? track.weapon;
+      const tier = this.upgradeManager.getTier(track.id);
+      const next = this.upgradeManager.getNextTier(track.id);
+      const price = next ? `${next.cost}` : 'MAX';
+      const label = `${weaponName} - ${track.name}  [${tier}/${track.tiers.length}]  ${price}`;
+
+      let color = '#ffffff';
+      if (!next) color = '#66ff66';
+      else if (!this.upgradeManager.canPurchase(track.id)) color = '#888888';
+      if (index === this.selectedIndex) color = '#ffcc00';
+
+      const row = this.addRow(index, (index === this.selectedIndex ? '> ' : '  ') + label, color);
+      row.setInteractive({ useHandCursor: true });
+      row.on('pointerdown', () => {
+        this.selectedIndex = index;
+        this.buy(index);
+      });
+    });
+  }
+
+  private addRow(index: number, label: string, color: string): Phaser.GameObjects.Text {
+    const row = this.scene.add.text(60, 64 + index * this.ROW_HEIGHT, label, {
+      fontFamily: 'Arial',
+      fontSize: '10px',
+      color,
+    });
+    row.setScrollFactor(0); // Keeps pointer hit tests in screen space
+    this.container.add(row);
+    this.rowTexts.push(row);
+    return row;
+  }
+}
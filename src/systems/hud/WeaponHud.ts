@@ -0,0 +1,126 @@
+import Phaser from 'phaser';
+import { BASE_WIDTH } from '../../game/constants';
+import { WeaponManager, WeaponManagerEvent } from '../WeaponManager';
+import { WeaponBase } from '../weapons/WeaponBase';
+import { UpgradeManager, UpgradeEvent } from '../UpgradeManager';
+import {
+  WeaponResource,
+  WeaponResourceEvent,
+  WeaponResourceState,
+} from '../weapons/resources/WeaponResource';
+
+/**
+ * WeaponHud - current weapon name, its resource (ammo, heat or stamina)
+ * and the Gatsby Sauce balance
+ * Driven entirely by manager/resource events; unbinds on scene shutdown
+ * since the managers outlive the scene
+ */
+export class WeaponHud {
+  private readonly BAR_WIDTH = 60;
+  private readonly BAR_HEIGHT = 4;
+
+  private scene: Phaser.Scene;
+  private weaponManager: WeaponManager;
+  private upgradeManager: UpgradeManager;
+  private resource: WeaponResource | null = null;
+  private nameText: Phaser.GameObjects.Text;
+  private resourceText: Phaser.GameObjects.Text;
+  private bar: Phaser.GameObjects.Graphics;
+  private currencyText: Phaser.GameObjects.Text;
+
+  constructor(scene: Phaser.Scene, weaponManager: WeaponManager, upgradeManager: UpgradeManager) {
+    this.scene = scene;
+    this.weaponManager = weaponManager;
+    this.upgradeManager = upgradeManager;
+
+    const x = BASE_WIDTH - 10;
+    const textStyle = {
+      fontFamily: 'Arial',
+      fontSize: '10px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    };
+
+    this.nameText = scene.add.text(x, 10, '', textStyle).setOrigin(1, 0);
+    this.resourceText = scene.add.text(x, 24, '', textStyle).setOrigin(1, 0);
+    this.bar = scene.add.graphics();
+    this.currencyText = scene.add.text(x, 46, '', { ...textStyle, color: '#ffcc00' }).setOrigin(1, 0);
+    [this.nameText, this.resourceText, this.bar, this.currencyText].forEach(obj => {
+      obj.setScrollFactor(0);
+      obj.setDepth(9000);
+    });
+
+    weaponManager.events.on(WeaponManagerEvent.WEAPON_CHANGED, this.onWeaponChanged, this);
+    upgradeManager.events.on(UpgradeEvent.CURRENCY_CHANGED, this.onCurrencyChanged, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+
+    const current = weaponManager.getCurrentWeapon();
+    if (current) {
+      this.onWeaponChanged(current);
+    }
+    this.onCurrencyChanged(upgradeManager.getCurrency());
+  }
+
+  private onCurrencyChanged(total: number): void {
+    this.currencyText.setText(`SAUCE ${total}`);
+  }
+
+  private onWeaponChanged(weapon: WeaponBase): void {
+    this.unbindResource();
+
+    this.nameText.setText(weapon.getName());
+    this.resource = weapon.getResource();
+
+    if (this.resource) {
+      this.resource.on(WeaponResourceEvent.CHANGED, this.render, this);
+      this.render(this.resource.getState());
+    } else {
+      this.resourceText.setText('');
+      this.bar.clear();
+    }
+  }
+
+  private render(state: WeaponResourceState): void {
+    let label: string;
+    switch (state.kind) {
+      case 'magazine': {
+        const reserve = state.reserve === undefined ? '' : ` / ${state.reserve}`;
+        label = state.blocked ? 'RELOADING' : `${state.value}${reserve}`;
+        break;
+      }
+      case 'heat':
+        label = state.blocked ? 'OVERHEATED' : 'HEAT';
+        break;
+      case 'stamina':
+        label = 'STAMINA';
+        break;
+    }
+    this.resourceText.setText(label);
+    this.resourceText.setColor(state.blocked ? '#ff6666' : '#ffffff');
+
+    // Fill bar under the label
+    const fill = state.max > 0 ? state.value / state.max : 0;
+    const x = BASE_WIDTH - 10 - this.BAR_WIDTH;
+    const y = 38;
+    const color = state.kind === 'heat' ? 0xff6600 : state.kind === 'stamina' ? 0x66ff66 : 0xffcc00;
+
+    this.bar.clear();
+    this.bar.fillStyle(0x000000, 0.6);
+    this.bar.fillRect(x, y, this.BAR_WIDTH, this.BAR_HEIGHT);
+    this.bar.fillStyle(state.blocked ? 0xff3333 : color, 1);
+    this.bar.fillRect(x, y, this.BAR_WIDTH * fill, this.BAR_HEIGHT);
+  }
+
+  private unbindResource(): void {
+    this.resource?.off(WeaponResourceEvent.CHANGED, this.render, this);
+    this.resource = null;
+  }
+
+  public destroy(): void {
+    this.unbindResource();
+    this.weaponManager.events.off(WeaponManagerEvent.WEAPON_CHANGED, this.onWeaponChanged, this);
+    this.upgradeManager.events.off(UpgradeEvent.CURRENCY_CHANGED, this.onCurrencyChanged, this);
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * One playable level - a Tiled map plus how to read it
+ */
+export interface LevelDefinition {
+  id: string;
+  name: string;             // Shown to the player
+  map: string;              // Tiled JSON path; tileset and image layer paths are relative to it
+  collisionLayer?: string;  // Tile layer with 'collides' tiles (default 'world')
+}
+
+/**
+ * LevelManifest - every level the game knows about (public/assets/data/levels.json)
+ * Loaded once after preloading; LevelScene looks levels up here by id.
+ * Adding a level is a map file plus an entry here - no new scene class.
+ */
+export class LevelManifest {
+  private static levels: LevelDefinition[] = [];
+  private static sequence: string[] = [];
+
+  /**
+   * Validate raw manifest data (the parsed levels.json)
+   * Invalid entries are logged and skipped; file order is kept
+   */
+  public static load(data: unknown): LevelDefinition[] {
+    const list = (data as { levels?: unknown } | undefined)?.levels;
+    if (!Array.isArray(list)) {
+      console.error('LevelManifest: Level manifest must have a "levels" array');
+      this.levels = [];
+      this.sequence = [];
+      return [];
+    }
+
+    const levels: LevelDefinition[] = [];
+    list.forEach((entry, index) => {
+      const errors = LevelManifest.validate(entry);
+      const id = (entry as { id?: unknown })?.id;
+      if (typeof id === 'string' && levels.some(level => level.id === id)) {
+        errors.push(`duplicate id '${id}'`);
+      }
+
+      if (errors.length > 0) {
+        console.error(`LevelManifest: Skipping level #${index} - ${errors.join('; ')}`);
+        return;
+      }
+      levels.push(entry as LevelDefinition);
+    });
+
+    this.levels = levels;
+    this.sequence = LevelManifest.loadSequence((data as { sequence?: unknown }).sequence);
+    console.log(`LevelManifest: Loaded ${levels.length} levels (${this.sequence.length} in sequence)`);
+    return levels;
+  }
+
+  /**
+   * Levels unlocked in order (default: every level in file order)
+   * Levels left out - e.g. interiors behind doors - never show on the level select
+   */
+  private static loadSequence(data: unknown): string[] {
+    if (data === undefined) {
+      return this.levels.map(level => level.id);
+    }
+    if (!Array.isArray(data)) {
+      console.error('LevelManifest: "sequence" must be an array of level ids - using file order');
+      return this.levels.map(level => level.id);
+    }
+
+    return data.filter((id, index) => {
+      if (typeof id === 'string' && this.get(id) && data.indexOf(id) === index) return true;
+      console.error(`LevelManifest: Skipping sequence entry #${index} - unknown or repeated level '${id}'`);
+      return false;
+    });
+  }
+
+  private static validate(entry: unknown): string[] {
+    if (typeof entry !== 'object' || entry === null) {
+      return ['not an object'];
+    }
+
+    const def = entry as Record<string, unknown>;
+    const errors: string[] = [];
+    ['id', 'name', 'map'].forEach(field => {
+      if (typeof def[field] !== 'string' || (def[field] as string).length === 0) {
+        errors.push(`'${field}' must be a non-empty string`);
+      }
+    });
+    if (def.collisionLayer !== undefined && typeof def.collisionLayer !== 'string') {
+      errors.push(`'collisionLayer' must be a string`);
+    }
+    return errors;
+  }
+
+  public static get(id: string): LevelDefinition | undefined {
+    return this.levels.find(level => level.id === id);
+  }
+
+  public static getAll(): LevelDefinition[] {
+    return [...this.levels];
+  }
+
+  /**
+   * First level of the sequence (or of the file)
+   */
+  public static getFirst(): LevelDefinition | undefined {
+    return this.get(this.sequence[0]) ?? this.levels[0];
+  }
+
+  /**
+   * Levels in unlock order
+   */
+  public static getSequence(): LevelDefinition[] {
+    return this.sequence.map(id => this.get(id)!);
+  }
+}
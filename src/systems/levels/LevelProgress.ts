@@ -0,0 +1,56 @@
+import Phaser from 'phaser';
+import { LevelManifest } from './LevelManifest';
+
+/**
+ * Events emitted on LevelProgress.events
+ */
+export enum LevelProgressEvent {
+  LEVEL_COMPLETED = 'level-completed', // (levelId: string)
+}
+
+/**
+ * LevelProgress - which levels of the sequence are done for the current run
+ * Each level unlocks once the one before it in the manifest's sequence is completed
+ * Lives in the game registry so progress persists across scenes
+ */
+export class LevelProgress {
+  private completed: Set<string> = new Set();
+
+  public readonly events: Phaser.Events.EventEmitter;
+
+  constructor() {
+    this.events = new Phaser.Events.EventEmitter();
+  }
+
+  /**
+   * The first level, any level after a completed one, and levels outside the sequence
+   */
+  public isUnlocked(levelId: string): boolean {
+    const sequence = LevelManifest.getSequence();
+    const index = sequence.findIndex(level => level.id === levelId);
+    if (index <= 0) return true;
+    return this.completed.has(sequence[index - 1].id);
+  }
+
+  public isCompleted(levelId: string): boolean {
+    return this.completed.has(levelId);
+  }
+
+  /**
+   * Mark a level done (unlocking the next one)
+   */
+  public complete(levelId: string): void {
+    if (this.completed.has(levelId)) return;
+
+    this.completed.add(levelId);
+    console.log(`LevelProgress: '${levelId}' completed`);
+    this.events.emit(LevelProgressEvent.LEVEL_COMPLETED, levelId);
+  }
+
+  /**
+   * Fresh run
+   */
+  public reset(): void {
+    this.completed.clear();
+  }
+}
@@ -0,0 +1,68 @@
+import { Player } from '../../entities/Player';
+import { StatusEffectType } from '../status/StatusEffect';
+import { StatusEffectFactory, StatusEffectSpec } from '../status/StatusEffectFactory';
+
+/**
+ * What the player takes through an exit or door
+ * Weapons, ammo, currency, upgrades and lives already live in registry managers
+ */
+export interface PlayerSnapshot {
+  health: number;
+  effects: StatusEffectSpec[]; // Remaining durations and current intensities
+}
+
+/**
+ * PlayerState - carries the player's health and status effects between maps
+ * The level being left stores a snapshot in the registry; the next one applies it
+ */
+export class PlayerState {
+  private static readonly REGISTRY_KEY = 'playerState';
+
+  /**
+   * Snapshot the player and keep it for the next level
+   */
+  public static store(registry: Phaser.Data.DataManager, player: Player): void {
+    const effects: StatusEffectSpec[] = [];
+    player.getStatusEffects()?.getActiveEffects().forEach(effect => {
+      const type = effect.getType();
+      const duration = effect.getRemainingFrames();
+      if (duration <= 0) return; // Permanent effects belong to the map that gave them
+
+      if (type === StatusEffectType.SOGGY || StatusEffectFactory.isApplicable(type)) {
+        effects.push({ type, duration, intensity: effect.getIntensity() });
+      }
+    });
+
+    const snapshot: PlayerSnapshot = { health: player.getHealth(), effects };
+    registry.set(this.REGISTRY_KEY, snapshot);
+  }
+
+  /**
+   * Apply (and clear) a stored snapshot - returns false if there wasn't one
+   */
+  public static restore(registry: Phaser.Data.DataManager, player: Player): boolean {
+    const snapshot = registry.get(this.REGISTRY_KEY) as PlayerSnapshot | undefined;
+    if (!snapshot) return false;
+
+    registry.remove(this.REGISTRY_KEY);
+    player.setHealth(snapshot.health);
+    snapshot.effects.forEach(spec => {
+      if (spec.type === StatusEffectType.SOGGY) {
+        player.applySoggy(spec.duration);
+        return;
+      }
+      const effect = StatusEffectFactory.create(spec);
+      if (effect) player.getStatusEffects()?.applyEffect(effect);
+    });
+
+    console.log(`PlayerState: Restored ${snapshot.health} HP and ${snapshot.effects.length} effects`);
+    return true;
+  }
+
+  /**
+   * Forget any stored snapshot (e.g. a fresh run from the menu)
+   */
+  public static clear(registry: Phaser.Data.DataManager): void {
+    registry.remove(this.REGISTRY_KEY);
+  }
+}
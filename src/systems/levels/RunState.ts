@@ -0,0 +1,24 @@
+import Phaser from 'phaser';
+import { LivesManager } from '../LivesManager';
+import { LevelProgress } from './LevelProgress';
+import { PlayerState } from './PlayerState';
+
+/**
+ * RunState - ends a run by resetting every run-scoped registry manager
+ * Lives, continues, level progress and the carried player snapshot are reset;
+ * weapons, ammo, currency and upgrades are dropped so the next level builds fresh ones.
+ * Input, audio, fullscreen and ads live for the whole session and are kept.
+ */
+export class RunState {
+  /**
+   * Start over (back at the title screen, or out of continues)
+   */
+  public static reset(registry: Phaser.Data.DataManager): void {
+    (registry.get('livesManager') as LivesManager | undefined)?.reset();
+    (registry.get('levelProgress') as LevelProgress | undefined)?.reset();
+    PlayerState.clear(registry);
+    registry.remove('weaponManager');
+    registry.remove('upgradeManager');
+    console.log('RunState: Fresh run');
+  }
+}
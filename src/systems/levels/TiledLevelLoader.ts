@@ -0,0 +1,261 @@
+import Phaser from 'phaser';
+import { BASE_HEIGHT } from '../../game/constants';
+import { LevelDefinition } from './LevelManifest';
+
+export interface TiledProperty {
+  name: string;
+  type?: string;
+  value: unknown;
+}
+
+/**
+ * The parts of a Tiled JSON layer the loader reads
+ */
+interface TiledLayerData {
+  type: string;
+  name: string;
+  image?: string;
+  x?: number;
+  y?: number;
+  offsetx?: number;
+  offsety?: number;
+  visible?: boolean;
+  repeatx?: boolean;
+  layers?: TiledLayerData[];
+  properties?: TiledProperty[];
+}
+
+interface TiledTilesetData {
+  name: string;
+  image?: string;
+  source?: string;
+  tilewidth: number;
+  tileheight: number;
+  margin?: number;
+  spacing?: number;
+}
+
+/**
+ * Everything built from a level's map
+ */
+export interface TiledLevel {
+  map: Phaser.Tilemaps.Tilemap;
+  tileLayers: Map<string, Phaser.Tilemaps.TilemapLayer>;
+  collisionLayer: Phaser.Tilemaps.TilemapLayer | null;
+  objects: Phaser.Types.Tilemaps.TiledObject[]; // From every object layer, in layer order
+}
+
+/**
+ * TiledLevelLoader - loads and builds any Tiled JSON map
+ * Tilesets and image layers are read from the map itself (paths relative to the map
+ * file), every tile, image and object layer is created, and layers honour the
+ * 'depth' and 'scrollFactorX' custom properties.
+ */
+export class TiledLevelLoader {
+  private static readonly DEFAULT_COLLISION_LAYER = 'world';
+  private static readonly FALLBACK_IMAGE = 'parallax-background';
+
+  public static getMapKey(level: LevelDefinition): string {
+    return `level-map-${level.id}`;
+  }
+
+  /**
+   * Queue the map, then its tileset and image layer images once it has loaded
+   * Call from the scene's preload()
+   */
+  public static preload(scene: Phaser.Scene, level: LevelDefinition): void {
+    const key = this.getMapKey(level);
+    if (scene.cache.tilemap.exists(key)) {
+      this.queueImages(scene, level);
+      return;
+    }
+
+    scene.load.tilemapTiledJSON(key, level.map);
+    scene.load.once(`filecomplete-tilemapJSON-${key}`, () => this.queueImages(scene, level));
+  }
+
+  private static queueImages(scene: Phaser.Scene, level: LevelDefinition): void {
+    const data = this.getMapData(scene, level);
+    if (!data) return;
+
+    const images: string[] = [];
+    (data.tilesets as TiledTilesetData[] ?? []).forEach(tileset => {
+      if (tileset.image) images.push(tileset.image);
+    });
+    this.flattenLayers(data.layers ?? []).forEach(layer => {
+      if (layer.type === 'imagelayer' && layer.image) images.push(layer.image);
+    });
+
+    images.forEach(image => {
+      const path = this.resolvePath(level.map, image);
+      if (!scene.textures.exists(path)) {
+        scene.load.image(path, path);
+      }
+    });
+  }
+
+  /**
+   * Build the level: tilesets, tile layers (with collision), image layers and objects
+   */
+  public static build(scene: Phaser.Scene, level: LevelDefinition): TiledLevel | null {
+    const data = this.getMapData(scene, level);
+    if (!data) {
+      console.error(`TiledLevelLoader: Map for level '${level.id}' is not loaded`);
+      return null;
+    }
+
+    const map = scene.make.tilemap({ key: this.getMapKey(level) });
+    const tilesets = this.createTilesets(map, level, data.tilesets ?? []);
+    const tileLayers = this.createTileLayers(map, tilesets);
+
+    // Only tiles with 'collides: true' property will be collidable
+    const collisionName = level.collisionLayer ?? this.DEFAULT_COLLISION_LAYER;
+    const collisionLayer = tileLayers.get(collisionName) ?? null;
+    if (collisionLayer) {
+      collisionLayer.setCollisionByProperty({ collides: true });
+      console.log(`TiledLevelLoader: Enabled tile collision on '${collisionName}' layer (collides property)`);
+    } else {
+      console.warn(`TiledLevelLoader: Level '${level.id}' has no '${collisionName}' tile layer - nothing to stand on`);
+    }
+
+    this.createImageLayers(scene, level, data.layers ?? [], map.widthInPixels);
+
+    const objects: Phaser.Types.Tilemaps.TiledObject[] = [];
+    map.objects.forEach(layer => objects.push(...layer.objects));
+
+    return { map, tileLayers, collisionLayer, objects };
+  }
+
+  private static getMapData(scene: Phaser.Scene, level: LevelDefinition) {
+    return scene.cache.tilemap.get(this.getMapKey(level))?.data as
+      { tilesets?: TiledTilesetData[]; layers?: TiledLayerData[] } | undefined;
+  }
+
+  /**
+   * Embedded tilesets with a single image (the kind Phaser supports)
+   */
+  private static createTilesets(
+    map: Phaser.Tilemaps.Tilemap,
+    level: LevelDefinition,
+    tilesetData: TiledTilesetData[]
+  ): Phaser.Tilemaps.Tileset[] {
+    const tilesets: Phaser.Tilemaps.Tileset[] = [];
+
+    tilesetData.forEach(data => {
+      if (data.source) {
+        console.warn(`TiledLevelLoader: External tileset '${data.source}' in '${level.id}' - embed it in the map`);
+        return;
+      }
+      if (!data.image) {
+        console.warn(`TiledLevelLoader: Tileset '${data.name}' in '${level.id}' has no single image - skipped`);
+        return;
+      }
+
+      const tileset = map.addTilesetImage(
+        data.name,
+        this.resolvePath(level.map, data.image),
+        data.tilewidth,
+        data.tileheight,
+        data.margin ?? 0,
+        data.spacing ?? 0
+      );
+      if (tileset) {
+        tilesets.push(tileset);
+      } else {
+        console.error(`TiledLevelLoader: Failed to add tileset '${data.name}'`);
+      }
+    });
+
+    return tilesets;
+  }
+
+  private static createTileLayers(
+    map: Phaser.Tilemaps.Tilemap,
+    tilesets: Phaser.Tilemaps.Tileset[]
+  ): Map<string, Phaser.Tilemaps.TilemapLayer> {
+    const layers = new Map<string, Phaser.Tilemaps.TilemapLayer>();
+
+    map.layers.forEach(layerData => {
+      const layer = map.createLayer(layerData.name, tilesets);
+      if (!layer) {
+        console.error(`TiledLevelLoader: Error creating layer '${layerData.name}'`);
+        return;
+      }
+
+      layer.setVisible(layerData.visible);
+      const properties = layerData.properties as TiledProperty[] | undefined;
+      const depth = this.getProperty<number>(properties, 'depth');
+      if (depth !== undefined) layer.setDepth(depth);
+
+      const scrollFactorX = this.getProperty<number>(properties, 'scrollFactorX');
+      if (scrollFactorX !== undefined) layer.setScrollFactor(scrollFactorX, 0);
+
+      layers.set(layerData.name, layer);
+      console.log(`TiledLevelLoader: Created tile layer '${layerData.name}'`);
+    });
+
+    return layers;
+  }
+
+  /**
+   * Images or (repeatx) tile sprites spanning the level width
+   */
+  private static createImageLayers(
+    scene: Phaser.Scene,
+    level: LevelDefinition,
+    layerData: TiledLayerData[],
+    levelWidth: number
+  ): void {
+    this.flattenLayers(layerData).forEach(layer => {
+      if (layer.type !== 'imagelayer') return;
+
+      // Skip if layer is not visible
+      if (layer.visible === false) {
+        console.log(`TiledLevelLoader: Skipping hidden image layer '${layer.name}'`);
+        return;
+      }
+
+      const depth = this.getProperty<number>(layer.properties, 'depth') ?? 0;
+      const scrollFactorX = this.getProperty<number>(layer.properties, 'scrollFactorX') ?? 1;
+      const textureKey = layer.image ? this.resolvePath(level.map, layer.image) : this.FALLBACK_IMAGE;
+      const x = (layer.x ?? 0) + (layer.offsetx ?? 0);
+      const y = (layer.y ?? 0) + (layer.offsety ?? 0);
+
+      const image = layer.repeatx
+        ? scene.add.tileSprite(0, y, levelWidth, BASE_HEIGHT, textureKey)
+        : scene.add.image(x, y, textureKey);
+      image.setOrigin(0, 0);
+      image.setScrollFactor(scrollFactorX, 0);
+      image.setDepth(depth);
+      console.log(`TiledLevelLoader: Created ${layer.repeatx ? 'repeating ' : ''}image layer '${layer.name}' at depth ${depth}`);
+    });
+  }
+
+  /**
+   * Layers with group layers expanded, in drawing order
+   */
+  private static flattenLayers(layers: TiledLayerData[]): TiledLayerData[] {
+    return layers.flatMap(layer => layer.type === 'group' ? this.flattenLayers(layer.layers ?? []) : [layer]);
+  }
+
+  /**
+   * Path of a file referenced by a map, relative to the map file
+   * e.g. ('assets/maps/promenade.json', 'assets/mountains.png') -> 'assets/maps/assets/mountains.png'
+   */
+  public static resolvePath(mapPath: string, relative: string): string {
+    const parts = mapPath.split('/').slice(0, -1);
+    relative.split(/[/\\]/).forEach(part => {
+      if (part === '..') parts.pop();
+      else if (part !== '.' && part !== '') parts.push(part);
+    });
+    return parts.join('/');
+  }
+
+  /**
+   * Read a custom property from a Tiled property list
+   */
+  public static getProperty<T>(properties: TiledProperty[] | undefined, name: string): T | undefined {
+    if (!Array.isArray(properties)) return undefined;
+    return properties.find(p => p.name === name)?.value as T | undefined;
+  }
+}
@@ -0,0 +1,156 @@
+import Phaser from 'phaser';
+
+/**
+ * Tiled custom property types an object type can declare
+ */
+export type ObjectPropertyType = 'string' | 'int' | 'float' | 'bool';
+
+export interface ObjectPropertySpec {
+  type: ObjectPropertyType;
+  required?: boolean; // Objects missing it are skipped
+}
+
+export type ObjectPropertySchema = Record<string, ObjectPropertySpec>;
+
+type PropertyValue<T extends ObjectPropertyType> = T extends 'bool' ? boolean : T extends 'string' ? string : number;
+
+/**
+ * Declared properties as their TypeScript types - optional ones may be undefined
+ */
+export type ObjectProperties<S extends ObjectPropertySchema> = {
+  [K in keyof S]: S[K]['required'] extends true
+    ? PropertyValue<S[K]['type']>
+    : PropertyValue<S[K]['type']> | undefined;
+};
+
+/**
+ * Builds the entity for one object - `properties` holds the declared ones, converted;
+ * `raw` every custom property as Tiled stored it (for pass-through overrides)
+ */
+export type ObjectCreator<S extends ObjectPropertySchema> = (
+  obj: Phaser.Types.Tilemaps.TiledObject,
+  properties: ObjectProperties<S>,
+  raw: Record<string, unknown>
+) => void;
+
+interface ObjectType {
+  schema: ObjectPropertySchema;
+  create: ObjectCreator<ObjectPropertySchema>;
+}
+
+/**
+ * TiledObjectFactory - maps Tiled object types (the `type` custom property) to
+ * entity creators and hands them typed custom properties
+ * Unknown types and objects missing a required property are logged and skipped.
+ * Numeric and boolean properties saved as strings (Tiled's default) are converted.
+ *
+ *   factory.register('checkpoint', {}, obj => new Checkpoint(scene, obj.x!, obj.y!));
+ *   factory.register('hazard', { effect: { type: 'string', required: true }, damage: { type: 'int' } },
+ *     (obj, { effect, damage }) => ...);
+ */
+export class TiledObjectFactory {
+  private types: Map<string, ObjectType> = new Map();
+  private ignored: Set<string> = new Set();
+
+  /**
+   * Register the creator for an object type
+   */
+  public register<S extends ObjectPropertySchema>(type: string, schema: S, create: ObjectCreator<S>): void {
+    if (this.types.has(type)) {
+      console.warn(`TiledObjectFactory: Replacing object type '${type}'`);
+    }
+    this.types.set(type, { schema, create: create as unknown as ObjectCreator<ObjectPropertySchema> });
+  }
+
+  /**
+   * Types that are expected in maps but need no entity (e.g. editor-only markers)
+   */
+  public ignore(...types: string[]): void {
+    types.forEach(type => this.ignored.add(type));
+  }
+
+  public has(type: string): boolean {
+    return this.types.has(type);
+  }
+
+  /**
+   * Create the entity for a Tiled object - returns false if it was skipped
+   */
+  public create(obj: Phaser.Types.Tilemaps.TiledObject): boolean {
+    const raw: Record<string, unknown> = {};
+    (obj.properties as Array<{ name: string; value: unknown }> | undefined)?.forEach(prop => {
+      raw[prop.name] = prop.value;
+    });
+
+    const type = typeof raw.type === 'string' ? raw.type : '';
+    const label = `'${obj.name || `#${obj.id}`}' at (${obj.x}, ${obj.y})`;
+    if (this.ignored.has(type)) return false;
+
+    const objectType = this.types.get(type);
+    if (!objectType) {
+      console.warn(type
+        ? `TiledObjectFactory: Unknown object type '${type}' for ${label} - skipped`
+        : `TiledObjectFactory: Object ${label} has no 'type' property - skipped`);
+      return false;
+    }
+
+    const properties = this.readProperties(type, label, objectType.schema, raw);
+    if (!properties) return false;
+
+    objectType.create(obj, properties, raw);
+    return true;
+  }
+
+  /**
+   * Convert the declared properties (null if a required one is missing)
+   * Values that can't be converted are logged and treated as missing
+   */
+  private readProperties(
+    type: string,
+    label: string,
+    schema: ObjectPropertySchema,
+    raw: Record<string, unknown>
+  ): ObjectProperties<ObjectPropertySchema> | null {
+    const properties: Record<string, unknown> = {};
+    const missing: string[] = [];
+
+    Object.entries(schema).forEach(([name, spec]) => {
+      let value = raw[name];
+      if (value !== undefined && value !== '') {
+        value = TiledObjectFactory.convert(value, spec.type);
+        if (value === undefined) {
+          console.warn(`TiledObjectFactory: '${type}' ${label} property '${name}' must be ${spec.type} - ignored`);
+        }
+      } else {
+        value = undefined;
+      }
+
+      if (value === undefined && spec.required) missing.push(name);
+      properties[name] = value;
+    });
+
+    if (missing.length > 0) {
+      console.warn(`TiledObjectFactory: '${type}' ${label} is missing required ${missing.map(name => `'${name}'`).join(', ')} - skipped`);
+      return null;
+    }
+    return properties as ObjectProperties<ObjectPropertySchema>;
+  }
+
+  private static convert(value: unknown, type: ObjectPropertyType): string | number | boolean | undefined {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string' ? value : String(value);
+      case 'bool':
+        if (typeof value === 'boolean') return value;
+        if (value === 'true' || value === 'false') return value === 'true';
+        return undefined;
+      case 'int':
+      case 'float': {
+        const number = typeof value === 'string' ? Number(value) : value;
+        if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+        if (type === 'int' && !Number.isInteger(number)) return undefined;
+        return number;
+      }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { PickupKind, PickupSpec } from '../../entities/pickups/Pickup';
+
+/**
+ * One weighted outcome - leave out `kind` for "nothing"
+ */
+export interface DropEntry {
+  kind?: PickupKind;
+  weight: number;
+  amount?: number;
+  weapon?: string;
+}
+
+/**
+ * Rolled `rolls` times (default 1) when an enemy using it is defeated
+ */
+export interface DropTable {
+  rolls?: number;
+  entries: DropEntry[];
+}
+
+/**
+ * DropTables - named weighted loot tables for defeated enemies
+ * Enemies pick one with EnemyConfig.drops (or a Tiled 'drops' property).
+ *
+ * Adding a table:
+ *   DropTables.register('hadeda', { entries: [{ weight: 1 }, { kind: PickupKind.CURRENCY, weight: 1 }] });
+ */
+export class DropTables {
+  private static tables: Map<string, DropTable> = new Map([
+    ['common', {
+      entries: [
+        { weight: 50 },
+        { kind: PickupKind.CURRENCY, weight: 35, amount: 3 },
+        { kind: PickupKind.HEALTH, weight: 15, amount: 10 },
+      ],
+    }],
+    ['ranged', {
+      entries: [
+        { weight: 40 },
+        { kind: PickupKind.CURRENCY, weight: 30, amount: 3 },
+        { kind: PickupKind.AMMO, weight: 20, weapon: 'chip-shotgun', amount: 4 },
+        { kind: PickupKind.HEALTH, weight: 10, amount: 10 },
+      ],
+    }],
+    ['brute', {
+      rolls: 2,
+      entries: [
+        { weight: 20 },
+        { kind: PickupKind.CURRENCY, weight: 50, amount: 5 },
+        { kind: PickupKind.HEALTH, weight: 30, amount: 20 },
+      ],
+    }],
+    ['boss', {
+      rolls: 5,
+      entries: [
+        { kind: PickupKind.CURRENCY, weight: 60, amount: 10 },
+        { kind: PickupKind.HEALTH, weight: 25, amount: 25 },
+        { kind: PickupKind.AMMO, weight: 15, weapon: 'chip-shotgun', amount: 6 },
+      ],
+    }],
+  ]);
+
+  /**
+   * Add or replace a table (entries with no weight are dropped)
+   */
+  public static register(id: string, table: DropTable): void {
+    const entries = table.entries.filter(entry => {
+      if (entry.weight > 0) return true;
+      console.warn(`DropTables: '${id}' has an entry without a positive weight - skipped`);
+      return false;
+    });
+    this.tables.set(id, { ...table, entries });
+  }
+
+  public static has(id: string): boolean {
+    return this.tables.has(id);
+  }
+
+  public static get(id: string): DropTable | undefined {
+    return this.tables.get(id);
+  }
+
+  /**
+   * Roll a table - one pick per roll, "nothing" results left out
+   */
+  public static roll(id: string): PickupSpec[] {
+    const table = this.tables.get(id);
+    if (!table) {
+      console.warn(`DropTables: Unknown drop table '${id}'`);
+      return [];
+    }
+
+    const total = table.entries.reduce((sum, entry) => sum + entry.weight, 0);
+    const drops: PickupSpec[] = [];
+
+    for (let i = 0; i < (table.rolls ?? 1); i++) {
+      let pick = Math.random() * total;
+      const entry = table.entries.find(candidate => (pick -= candidate.weight) < 0);
+      if (entry?.kind) {
+        drops.push({ kind: entry.kind, amount: entry.amount, weapon: entry.weapon });
+      }
+    }
+    return drops;
+  }
+}
@@ -0,0 +1,42 @@
+import { StatusEffect, StatusEffectType, StatusEffectConfig, StackingPolicy } from './StatusEffect';
+
+/**
+ * Burning status effect - Masala fire
+ * - Deals damage every tick until it burns out
+ * - Re-igniting keeps the longer burn and the hotter flame (MAX policy),
+ *   and the tick counter carries on so continuous fire still ticks
+ */
+export class BurningEffect extends StatusEffect {
+  private readonly TICK_FRAMES = 30; // Damage every 500ms at 60fps
+  private tickCounter: number = 0;
+
+  constructor(duration: number = 120, damagePerTick: number = 1) { // Default 2 seconds at 60fps
+    const config: StatusEffectConfig = {
+      type: StatusEffectType.BURNING,
+      duration: duration,
+      tint: 0xff8800,
+      stacking: StackingPolicy.MAX,
+      intensity: damagePerTick,
+    };
+    super(config);
+  }
+
+  protected onApply(): void {
+    this.tickCounter = 0;
+    console.log('Burning effect applied!');
+  }
+
+  protected onUpdate(): void {
+    if (!this.target) return;
+
+    this.tickCounter++;
+    if (this.tickCounter >= this.TICK_FRAMES) {
+      this.tickCounter = 0;
+      this.target.takeDamage(this.getIntensity());
+    }
+  }
+
+  protected onRemove(): void {
+    console.log('Burning effect removed.');
+  }
+}
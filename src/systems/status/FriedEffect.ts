@@ -0,0 +1,44 @@
+import { StatusEffect, StatusEffectType, StatusEffectConfig } from './StatusEffect';
+
+/**
+ * Fried status effect - oil-soaked target that caught fire
+ * Produced by the Soggy + Burning rule (see StatusEffectRules)
+ * - Bonus damage burst when it ignites
+ * - Still oily: takes extra damage while it lasts
+ */
+export class FriedEffect extends StatusEffect {
+  private bonusDamage: number;
+  private damageMultiplier: number;
+
+  constructor(
+    duration: number = 180,         // Default 3 seconds at 60fps
+    bonusDamage: number = 5,
+    damageMultiplier: number = 1.5
+  ) {
+    const config: StatusEffectConfig = {
+      type: StatusEffectType.FRIED,
+      duration: duration,
+      tint: 0xaa6622, // Golden-brown
+    };
+    super(config);
+    this.bonusDamage = bonusDamage;
+    this.damageMultiplier = damageMultiplier;
+  }
+
+  protected onApply(): void {
+    console.log(`Fried! ${this.bonusDamage} bonus damage`);
+    this.target?.takeDamage(this.bonusDamage);
+  }
+
+  protected onUpdate(): void {
+    // Could add sizzle particles here
+  }
+
+  protected onRemove(): void {
+    console.log('Fried effect removed.');
+  }
+
+  public getDamageTakenMultiplier(): number {
+    return this.damageMultiplier;
+  }
+}
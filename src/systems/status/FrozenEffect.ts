@@ -0,0 +1,71 @@
+import { StatusEffect, StatusEffectType, StatusEffectConfig } from './StatusEffect';
+
+/**
+ * Frozen status effect - iced solid
+ * - Can't move or act
+ * - A heavy hit (damage >= shatterThreshold) shatters the ice for bonus damage
+ * - Puts out Burning (see StatusEffectRules)
+ */
+export class FrozenEffect extends StatusEffect {
+  private shatterThreshold: number;
+  private shatterDamage: number;
+  private shattered: boolean = false;
+
+  constructor(
+    duration: number = 120,       // Default 2 seconds at 60fps
+    shatterThreshold: number = 10,
+    shatterDamage: number = 10
+  ) {
+    const config: StatusEffectConfig = {
+      type: StatusEffectType.FROZEN,
+      duration: duration,
+      tint: 0x99eeff, // Icy blue
+    };
+    super(config);
+    this.shatterThreshold = shatterThreshold;
+    this.shatterDamage = shatterDamage;
+  }
+
+  protected onApply(): void {
+    this.shattered = false;
+    console.log('Frozen effect applied!');
+  }
+
+  protected onUpdate(): void {
+    // Ice overlay is drawn by StatusEffectVfx
+  }
+
+  protected onRemove(): void {
+    if (this.shattered) {
+      console.log(`Frozen target shattered! ${this.shatterDamage} bonus damage`);
+      this.target?.takeDamage(this.shatterDamage);
+    } else {
+      console.log('Frozen effect removed.');
+    }
+  }
+
+  public onTargetHit(damage: number): boolean {
+    if (this.shattered || damage < this.shatterThreshold) return false;
+    this.shattered = true;
+    return true;
+  }
+
+  /**
+   * True if the ice was broken by a heavy hit rather than thawing
+   */
+  public isShattered(): boolean {
+    return this.shattered;
+  }
+
+  public getSpeedMultiplier(): number {
+    return 0;
+  }
+
+  public preventsActions(): boolean {
+    return true;
+  }
+
+  public preventsMovement(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,41 @@
+import { StatusEffect, StatusEffectType, StatusEffectConfig, StackingPolicy } from './StatusEffect';
+
+/**
+ * Slippery status effect - calamari ink / oil slick underfoot
+ * - Lowers ground traction: slow to speed up, slow to stop
+ * - Stepping in more slick adds time (EXTEND, capped)
+ */
+export class SlipperyEffect extends StatusEffect {
+  private traction: number;
+
+  constructor(
+    duration: number = 180, // Default 3 seconds at 60fps
+    traction: number = 0.15 // Fraction of normal grip
+  ) {
+    const config: StatusEffectConfig = {
+      type: StatusEffectType.SLIPPERY,
+      duration: duration,
+      tint: 0x66ddaa, // Greasy green
+      stacking: StackingPolicy.EXTEND,
+      maxDuration: duration * 2,
+    };
+    super(config);
+    this.traction = traction;
+  }
+
+  protected onApply(): void {
+    console.log(`Slippery effect applied! Traction x${this.traction}`);
+  }
+
+  protected onUpdate(): void {
+    // Drips are drawn by StatusEffectVfx
+  }
+
+  protected onRemove(): void {
+    console.log('Slippery effect removed.');
+  }
+
+  public getTractionMultiplier(): number {
+    return this.traction;
+  }
+}
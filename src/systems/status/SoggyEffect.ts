@@ -1,37 +1,31 @@
 import { StatusEffect, StatusEffectType, StatusEffectConfig } from './StatusEffect';
-import { PLAYER_SPEED } from '../../game/constants';
 
 /**
  * Soggy status effect - Oil saturation
- * - Increases movement speed (slippery)
- * - Player takes 2x damage
+ * Player (defaults): moves faster (slippery) and takes 2x damage
+ * Enemies: pass their own multipliers (e.g. half speed, normal damage)
  */
 export class SoggyEffect extends StatusEffect {
-  private readonly SPEED_MULTIPLIER = 1.5;  // 50% faster
-  private readonly DAMAGE_MULTIPLIER = 2.0; // 2x damage
-  private originalSpeed: number = PLAYER_SPEED;
-
-  constructor(duration: number = 300) { // Default 5 seconds at 60fps
+  private speedMultiplier: number;
+  private damageMultiplier: number;
+
+  constructor(
+    duration: number = 300,        // Default 5 seconds at 60fps
+    speedMultiplier: number = 1.5, // 50% faster
+    damageMultiplier: number = 2.0 // 2x damage
+  ) {
     const config: StatusEffectConfig = {
       type: StatusEffectType.SOGGY,
       duration: duration,
+      tint: 0x8888ff, // Blue-ish oily sheen
     };
     super(config);
+    this.speedMultiplier = speedMultiplier;
+    this.damageMultiplier = damageMultiplier;
   }
 
   protected onApply(): void {
-    if (!this.target) return;
-
-    // Store original speed
-    this.originalSpeed = this.target.getSpeed();
-
-    // Apply speed boost
-    this.target.setSpeed(this.originalSpeed * this.SPEED_MULTIPLIER);
-
-    // Apply visual tint (oily sheen)
-    this.target.setTint(0x8888ff); // Blue-ish tint
-
-    console.log('Soggy effect applied! Speed increased, damage vulnerability doubled.');
+    console.log(`Soggy effect applied! Speed x${this.speedMultiplier}, damage taken x${this.damageMultiplier}`);
   }
 
   protected onUpdate(): void {
@@ -39,21 +33,21 @@ export class SoggyEffect extends StatusEffect {
   }
 
   protected onRemove(): void {
-    if (!this.target) return;
-
-    // Restore original speed
-    this.target.setSpeed(this.originalSpeed);
+    console.log('Soggy effect removed.');
+  }
 
-    // Remove tint
-    this.target.clearTint();
+  public getSpeedMultiplier(): number {
+    return this.speedMultiplier;
+  }
 
-    console.log('Soggy effect removed.');
+  public getDamageTakenMultiplier(): number {
+    return this.damageMultiplier;
   }
 
   /**
    * Get damage multiplier
    */
   public getDamageMultiplier(): number {
-    return this.DAMAGE_MULTIPLIER;
+    return this.damageMultiplier;
   }
 }
@@ -1,36 +1,108 @@
-import { Player } from '../../entities/Player';
+import { Affectable } from '../../entities/Affectable';
 
 export enum StatusEffectType {
   SOGGY = 'soggy',
-  // Future effects: STUNNED, FROZEN, BURNING, etc.
+  BURNING = 'burning',
+  FRIED = 'fried',     // Soggy + Burning (see StatusEffectRules)
+  FROZEN = 'frozen',
+  STUNNED = 'stunned',
+  SLIPPERY = 'slippery',
+}
+
+/**
+ * What happens when an effect is applied while the same type is active
+ */
+export enum StackingPolicy {
+  REPLACE = 'replace', // Remove the old effect, apply the new one
+  REFRESH = 'refresh', // Keep the old effect, reset to the longer duration
+  STACK = 'stack',     // Add stacks (up to maxStacks) and refresh duration
+  EXTEND = 'extend',   // Add the new duration onto what's left
+  MAX = 'max',         // Keep the stronger intensity and the longer duration
 }
 
 export interface StatusEffectConfig {
   type: StatusEffectType;
-  duration: number; // Frames (-1 for permanent)
+  duration: number;           // Frames (-1 for permanent)
+  tint?: number;              // Tint shown while active (highest priority effect wins)
+  stacking?: StackingPolicy;  // Default REFRESH
+  intensity?: number;         // Effect strength (e.g. burn damage per tick), default 1
+  maxStacks?: number;         // STACK cap, default 5
+  maxDuration?: number;       // EXTEND cap in frames (default uncapped)
 }
 
 /**
  * Base class for status effects
+ * Targets are any Affectable (Player or Enemy)
  */
 export abstract class StatusEffect {
   protected config: StatusEffectConfig;
   protected remainingFrames: number;
-  protected target: Player | null = null;
+  protected target: Affectable | null = null;
+  protected intensity: number;
+  protected stacks: number = 1;
 
   constructor(config: StatusEffectConfig) {
     this.config = config;
     this.remainingFrames = config.duration;
+    this.intensity = config.intensity ?? 1;
   }
 
   /**
    * Apply effect to target
    */
-  public apply(target: Player): void {
+  public apply(target: Affectable): void {
     this.target = target;
     this.onApply();
   }
 
+  /**
+   * Merge the same effect applied again while active (policy other than REPLACE)
+   */
+  public merge(incoming: StatusEffect): void {
+    const policy = this.getStackingPolicy();
+
+    if (policy === StackingPolicy.STACK) {
+      this.stacks = Math.min(this.config.maxStacks ?? 5, this.stacks + incoming.stacks);
+    } else if (policy === StackingPolicy.MAX) {
+      this.intensity = Math.max(this.intensity, incoming.intensity);
+    }
+
+    // Permanent wins over any duration
+    if (this.config.duration === -1) return;
+    if (incoming.config.duration === -1) {
+      this.config = { ...this.config, duration: -1 };
+      return;
+    }
+
+    if (policy === StackingPolicy.EXTEND) {
+      const extended = this.remainingFrames + incoming.remainingFrames;
+      this.remainingFrames = Math.min(extended, this.config.maxDuration ?? extended);
+    } else {
+      this.remainingFrames = Math.max(this.remainingFrames, incoming.remainingFrames);
+    }
+  }
+
+  /**
+   * How this effect combines with another of the same type
+   */
+  public getStackingPolicy(): StackingPolicy {
+    return this.config.stacking ?? StackingPolicy.REFRESH;
+  }
+
+  /**
+   * Current stack count (1 unless the policy is STACK)
+   */
+  public getStacks(): number {
+    return this.stacks;
+  }
+
+  /**
+   * Effective strength - intensity scaled by stacks
+   */
+  public getIntensity(): number {
+    return this.intensity * this.stacks;
+  }
+
   /**
    * Update effect (called each frame)
    */
@@ -64,6 +136,62 @@ export abstract class StatusEffect {
     return this.config.type;
   }
 
+  /**
+   * Frames left (-1 for permanent)
+   */
+  public getRemainingFrames(): number {
+    return this.config.duration === -1 ? -1 : this.remainingFrames;
+  }
+
+  /**
+   * Tint to show while active (undefined for none)
+   */
+  public getTint(): number | undefined {
+    return this.config.tint;
+  }
+
+  /**
+   * Multiplier on the target's movement speed
+   */
+  public getSpeedMultiplier(): number {
+    return 1;
+  }
+
+  /**
+   * Multiplier on damage the target takes
+   */
+  public getDamageTakenMultiplier(): number {
+    return 1;
+  }
+
+  /**
+   * Multiplier on the target's ground traction (1 = normal, lower slides further)
+   */
+  public getTractionMultiplier(): number {
+    return 1;
+  }
+
+  /**
+   * True if the target can't act - no input for the Player, no AI for enemies
+   */
+  public preventsActions(): boolean {
+    return false;
+  }
+
+  /**
+   * True if the target is held in place
+   */
+  public preventsMovement(): boolean {
+    return false;
+  }
+
+  /**
+   * The target took a hit - return true to end the effect (e.g. Frozen shattering)
+   */
+  public onTargetHit(_damage: number): boolean {
+    return false;
+  }
+
   /**
    * Effect-specific application logic
    */
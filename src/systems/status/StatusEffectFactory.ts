@@ -0,0 +1,79 @@
+import { StatusEffect, StatusEffectType } from './StatusEffect';
+import { BurningEffect } from './BurningEffect';
+import { FrozenEffect } from './FrozenEffect';
+import { StunnedEffect } from './StunnedEffect';
+import { SlipperyEffect } from './SlipperyEffect';
+
+/**
+ * Status effect described in data (weapons.json, Tiled hazard properties)
+ */
+export interface StatusEffectSpec {
+  type: string;       // A StatusEffectType that can be applied from data
+  duration?: number;  // Frames (defaults to the effect's own duration)
+  intensity?: number; // Burn damage per tick (defaults to the effect's own)
+}
+
+/**
+ * StatusEffectFactory - Builds effects from data specs
+ * Soggy and Fried aren't listed: Soggy comes from saturation, Fried from rules
+ */
+export class StatusEffectFactory {
+  private static readonly APPLICABLE_TYPES: string[] = [
+    StatusEffectType.BURNING,
+    StatusEffectType.FROZEN,
+    StatusEffectType.STUNNED,
+    StatusEffectType.SLIPPERY,
+  ];
+
+  /**
+   * Check if a type can be applied from data
+   */
+  public static isApplicable(type: unknown): boolean {
+    return typeof type === 'string' && StatusEffectFactory.APPLICABLE_TYPES.includes(type);
+  }
+
+  /**
+   * Create a fresh effect for one application (null for unknown types)
+   */
+  public static create(spec: StatusEffectSpec): StatusEffect | null {
+    switch (spec.type) {
+      case StatusEffectType.BURNING:
+        return new BurningEffect(spec.duration, spec.intensity);
+      case StatusEffectType.FROZEN:
+        return new FrozenEffect(spec.duration);
+      case StatusEffectType.STUNNED:
+        return new StunnedEffect(spec.duration);
+      case StatusEffectType.SLIPPERY:
+        return new SlipperyEffect(spec.duration);
+      default:
+        console.warn(`StatusEffectFactory: Unknown status effect '${spec.type}'`);
+        return null;
+    }
+  }
+
+  /**
+   * Validate a spec from data (empty if valid)
+   */
+  public static validate(spec: unknown, prefix: string): string[] {
+    if (typeof spec !== 'object' || spec === null) {
+      return [`${prefix} must be an object`];
+    }
+
+    const errors: string[] = [];
+    const fields = spec as Record<string, unknown>;
+
+    if (!StatusEffectFactory.isApplicable(fields.type)) {
+      errors.push(`${prefix}.type must be one of ${StatusEffectFactory.APPLICABLE_TYPES.join(', ')}`);
+    }
+    if (fields.duration !== undefined &&
+        (typeof fields.duration !== 'number' || !Number.isFinite(fields.duration) || fields.duration <= 0)) {
+      errors.push(`${prefix}.duration must be a number > 0`);
+    }
+    if (fields.intensity !== undefined &&
+        (typeof fields.intensity !== 'number' || !Number.isFinite(fields.intensity) || fields.intensity <= 0)) {
+      errors.push(`${prefix}.intensity must be a number > 0`);
+    }
+
+    return errors;
+  }
+}
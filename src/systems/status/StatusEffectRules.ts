@@ -0,0 +1,33 @@
+import { StatusEffect, StatusEffectType } from './StatusEffect';
+import { FriedEffect } from './FriedEffect';
+
+/**
+ * How two or more active effects combine on the same target
+ * A rule fires as soon as every `requires` effect is active. It must remove
+ * at least one of them, otherwise it would fire again straight away
+ */
+export interface StatusEffectRule {
+  id: string;
+  requires: StatusEffectType[];
+  removes: StatusEffectType[];
+  produces?: () => StatusEffect; // New effect applied when the rule fires
+}
+
+/**
+ * Default interaction table - checked in order, first match wins each pass
+ */
+export const STATUS_EFFECT_RULES: StatusEffectRule[] = [
+  {
+    // Ice puts the fire out
+    id: 'frozen-extinguishes',
+    requires: [StatusEffectType.FROZEN, StatusEffectType.BURNING],
+    removes: [StatusEffectType.BURNING],
+  },
+  {
+    // Oil-soaked and on fire
+    id: 'fried',
+    requires: [StatusEffectType.SOGGY, StatusEffectType.BURNING],
+    removes: [StatusEffectType.SOGGY, StatusEffectType.BURNING],
+    produces: () => new FriedEffect(),
+  },
+];
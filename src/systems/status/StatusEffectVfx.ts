@@ -0,0 +1,134 @@
+import Phaser from 'phaser';
+import { StatusEffectManager, StatusEffectEvent } from '../StatusEffectManager';
+import { StatusEffect, StatusEffectType } from './StatusEffect';
+import { FrozenEffect } from './FrozenEffect';
+import { ImpactEffects } from '../weapons/ImpactEffects';
+
+/**
+ * StatusEffectVfx - Visuals on top of effect tints, driven by manager events
+ * - Stunned: stars circling overhead
+ * - Frozen: ice block over the sprite, shards when it shatters
+ * - Slippery: drips falling off the feet
+ * - Interaction rules (e.g. Fried): a burst
+ * Placeholder shapes until particle assets exist
+ */
+export class StatusEffectVfx {
+  private readonly STAR_COUNT = 3;
+  private readonly STAR_RADIUS = 8;
+  private readonly DRIP_INTERVAL_FRAMES = 12;
+
+  private scene: Phaser.Scene;
+  private sprite: Phaser.GameObjects.Sprite;
+  private manager: StatusEffectManager;
+  private stars: Phaser.GameObjects.Arc[] = [];
+  private starAngle: number = 0;
+  private iceBlock: Phaser.GameObjects.Rectangle | null = null;
+  private dripFrames: number = 0;
+
+  constructor(scene: Phaser.Scene, sprite: Phaser.GameObjects.Sprite, manager: StatusEffectManager) {
+    this.scene = scene;
+    this.sprite = sprite;
+    this.manager = manager;
+
+    manager.events.on(StatusEffectEvent.APPLIED, this.onApplied, this);
+    manager.events.on(StatusEffectEvent.EXPIRED, this.onEnded, this);
+    manager.events.on(StatusEffectEvent.REMOVED, this.onEnded, this);
+    manager.events.on(StatusEffectEvent.RULE_TRIGGERED, this.onRuleTriggered, this);
+    scene.events.on(Phaser.Scenes.Events.UPDATE, this.update, this);
+    sprite.once(Phaser.GameObjects.Events.DESTROY, this.destroy, this);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+  }
+
+  private onApplied(effect: StatusEffect): void {
+    switch (effect.getType()) {
+      case StatusEffectType.STUNNED:
+        this.clearStars();
+        for (let i = 0; i < this.STAR_COUNT; i++) {
+          this.stars.push(this.scene.add.circle(this.sprite.x, this.sprite.y, 1.5, 0xffff66).setDepth(60));
+        }
+        break;
+
+      case StatusEffectType.FROZEN: {
+        const bounds = this.sprite.getBounds();
+        this.iceBlock?.destroy();
+        this.iceBlock = this.scene.add.rectangle(bounds.centerX, bounds.centerY, bounds.width + 4, bounds.height + 4, 0xaaf0ff, 0.45);
+        this.iceBlock.setStrokeStyle(1, 0xffffff, 0.8);
+        this.iceBlock.setDepth(60);
+        break;
+      }
+
+      case StatusEffectType.SLIPPERY:
+        this.dripFrames = 0;
+        break;
+    }
+  }
+
+  private onEnded(effect: StatusEffect): void {
+    switch (effect.getType()) {
+      case StatusEffectType.STUNNED:
+        this.clearStars();
+        break;
+
+      case StatusEffectType.FROZEN:
+        this.iceBlock?.destroy();
+        this.iceBlock = null;
+        if (effect instanceof FrozenEffect && effect.isShattered()) {
+          ImpactEffects.sparks(this.scene, this.sprite.x, this.sprite.y, { x: 0, y: -1 }, 0xaaf0ff, 10);
+          ImpactEffects.burst(this.scene, this.sprite.x, this.sprite.y, 0xffffff, 12);
+        }
+        break;
+    }
+  }
+
+  private onRuleTriggered(): void {
+    ImpactEffects.burst(this.scene, this.sprite.x, this.sprite.y, 0xffaa33, 14);
+  }
+
+  private update(): void {
+    if (!this.sprite.active) return;
+
+    if (this.stars.length > 0) {
+      this.starAngle += 0.15;
+      const top = this.sprite.getBounds().top;
+      this.stars.forEach((star, i) => {
+        const angle = this.starAngle + (i / this.stars.length) * Math.PI * 2;
+        star.setPosition(
+          this.sprite.x + Math.cos(angle) * this.STAR_RADIUS,
+          top - 4 + Math.sin(angle) * 2
+        );
+      });
+    }
+
+    if (this.iceBlock) {
+      const bounds = this.sprite.getBounds();
+      this.iceBlock.setPosition(bounds.centerX, bounds.centerY);
+    }
+
+    if (this.manager.hasEffect(StatusEffectType.SLIPPERY)) {
+      this.dripFrames++;
+      if (this.dripFrames >= this.DRIP_INTERVAL_FRAMES) {
+        this.dripFrames = 0;
+        ImpactEffects.sparks(this.scene, this.sprite.x, this.sprite.getBounds().bottom, { x: 0, y: 1 }, 0x66ddaa, 1);
+      }
+    }
+  }
+
+  private clearStars(): void {
+    this.stars.forEach(star => star.destroy());
+    this.stars = [];
+  }
+
+  public destroy(): void {
+    this.clearStars();
+    this.iceBlock?.destroy();
+    this.iceBlock = null;
+
+    this.manager.events.off(StatusEffectEvent.APPLIED, this.onApplied, this);
+    this.manager.events.off(StatusEffectEvent.EXPIRED, this.onEnded, this);
+    this.manager.events.off(StatusEffectEvent.REMOVED, this.onEnded, this);
+    this.manager.events.off(StatusEffectEvent.RULE_TRIGGERED, this.onRuleTriggered, this);
+    this.scene.events.off(Phaser.Scenes.Events.UPDATE, this.update, this);
+    this.scene.events.off(Phaser.Scenes.Events.SHUTDOWN, this.destroy, this);
+    this.sprite.off(Phaser.GameObjects.Events.DESTROY, this.destroy, this);
+  }
+}
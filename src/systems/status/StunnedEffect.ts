@@ -0,0 +1,34 @@
+import { StatusEffect, StatusEffectType, StatusEffectConfig } from './StatusEffect';
+
+/**
+ * Stunned status effect - seeing stars
+ * - No input for the Player, no AI for enemies
+ * - Still falls and slides to a stop
+ * - Re-stunning only tops up to the longer duration (no stun-lock chains)
+ */
+export class StunnedEffect extends StatusEffect {
+  constructor(duration: number = 60) { // Default 1 second at 60fps
+    const config: StatusEffectConfig = {
+      type: StatusEffectType.STUNNED,
+      duration: duration,
+      tint: 0xffff66, // Dazed yellow
+    };
+    super(config);
+  }
+
+  protected onApply(): void {
+    console.log('Stunned effect applied!');
+  }
+
+  protected onUpdate(): void {
+    // Stars are drawn by StatusEffectVfx
+  }
+
+  protected onRemove(): void {
+    console.log('Stunned effect removed.');
+  }
+
+  public preventsActions(): boolean {
+    return true;
+  }
+}
@@ -1,56 +1,175 @@
-import { WeaponBase, WeaponType, WeaponConfig } from './WeaponBase';
+import Phaser from 'phaser';
+import { WeaponBase, HitVolume } from './WeaponBase';
+import { Enemy } from '../../entities/Enemy';
+import { CombatManager } from '../CombatManager';
+import { Raycast } from '../../utils/Raycast';
 
 /**
  * Calamari Whip - Grapple/pull mechanic
- * Creates a line to target, pulls player or enemy
+ * Raycasts to the first enemy or solid tile in range:
+ * - Terrain: latches on, swinging or pulling the player toward the anchor
+ * - Enemy: yanks the enemy toward the player
+ * Secondary: spin attack hitting everything around the player
  */
 export class CalamariWhip extends WeaponBase {
+  private readonly ENEMY_YANK_SPEED = 220;
+  private readonly CRACK_DURATION_MS = 166; // 10 frames of visual/damage
+  private readonly SPIN_FRAMES = 20;         // Spin active for ~333ms
+
   private whipLine: Phaser.GameObjects.Line | null = null;
+  private whipGeom: Phaser.Geom.Line | null = null; // World-space line for hit tests
+  private isLatched: boolean = false;
 
-  constructor(scene: Phaser.Scene) {
-    const config: WeaponConfig = {
-      type: WeaponType.CALAMARI_WHIP,
-      name: 'Calamari Whip',
-      fireRate: 45,  // 750ms between uses at 60fps
-      damage: 3,
-      saturationPerHit: 2,
-      range: 150,    // Grapple range in pixels
-    };
-    super(scene, config);
-  }
+  // Spin attack state
+  private spinFrames: number = 0;
+  private spinCircle: Phaser.GameObjects.Arc | null = null;
 
   protected onFire(direction: { x: number; y: number }): void {
     if (!this.owner) return;
 
-    // Cast ray in direction to find grapple point
-    const endX = this.owner.x + (direction.x * this.config.range!);
-    const endY = this.owner.y + (direction.y * this.config.range!);
+    // Cracking the whip again lets go of the current anchor
+    if (this.owner.isGrappling()) {
+      this.owner.releaseGrapple(false);
+    }
+    this.isLatched = false;
+    this.clearLine();
+
+    const length = Math.hypot(direction.x, direction.y) || 1;
+    const startX = this.owner.x;
+    const startY = this.owner.y;
+    let endX = startX + (direction.x / length) * this.stats.range!;
+    let endY = startY + (direction.y / length) * this.stats.range!;
+
+    // Terrain stops the whip short
+    const terrainHit = this.worldLayer
+      ? Raycast.againstTiles(this.worldLayer, startX, startY, endX, endY)
+      : null;
+    if (terrainHit) {
+      endX = terrainHit.x;
+      endY = terrainHit.y;
+    }
+
+    // An enemy in front of the terrain takes priority
+    const enemyHit = this.findEnemyOnLine(new Phaser.Geom.Line(startX, startY, endX, endY));
+
+    if (enemyHit) {
+      endX = enemyHit.point.x;
+      endY = enemyHit.point.y;
+      enemyHit.enemy.pullToward(startX, startY, this.ENEMY_YANK_SPEED);
+      console.log('Calamari Whip yanked an enemy');
+    } else if (terrainHit) {
+      this.isLatched = true;
+      this.owner.startGrapple(endX, endY);
+      console.log(`Calamari Whip latched at (${Math.round(endX)}, ${Math.round(endY)})`);
+    }
 
     // Create visual whip line
     this.whipLine = this.scene.add.line(
       0, 0,
-      this.owner.x, this.owner.y,
+      startX, startY,
       endX, endY,
       0xffffff
     );
     this.whipLine.setOrigin(0, 0);
     this.whipLine.setLineWidth(2);
+    this.whipGeom = new Phaser.Geom.Line(startX, startY, endX, endY);
 
-    console.log(`Calamari Whip extends to (${endX}, ${endY})`);
-
-    // TODO: Raycast to find grapple target (enemy or terrain)
-    // TODO: Apply pull force to player or enemy
     // TODO: Play whip crack sound
 
-    // Remove line after 10 frames (visual feedback)
-    this.scene.time.delayedCall(166, () => {
-      if (this.whipLine) {
-        this.whipLine.destroy();
-        this.whipLine = null;
+    // Damage window ends after the crack; the line stays while latched
+    const attackId = this.attackId;
+    const crackLine = this.whipLine;
+    this.scene.time.delayedCall(this.CRACK_DURATION_MS, () => {
+      if (this.attackId === attackId) {
+        this.whipGeom = null;
+      }
+      if (!this.isLatched && this.whipLine === crackLine) {
+        this.clearLine();
       }
     });
   }
 
+  protected onSecondaryFire(_direction: { x: number; y: number }): void {
+    if (!this.owner) return;
+
+    this.spinFrames = this.SPIN_FRAMES;
+
+    this.spinCircle?.destroy();
+    this.spinCircle = this.scene.add.circle(this.owner.x, this.owner.y, this.stats.secondary!.range!);
+    this.spinCircle.setStrokeStyle(2, 0xffffff, 0.8);
+
+    console.log('Calamari Whip spin attack');
+
+    // TODO: Play spin sound
+  }
+
+  /**
+   * Find the closest enemy crossed by the whip line
+   */
+  private findEnemyOnLine(line: Phaser.Geom.Line): { enemy: Enemy; point: Phaser.Math.Vector2 } | null {
+    const combatManager = this.scene.registry.get('combatManager') as CombatManager | undefined;
+    if (!combatManager) return null;
+
+    let closest: { enemy: Enemy; point: Phaser.Math.Vector2 } | null = null;
+    let closestDistance = Infinity;
+
+    combatManager.getEnemies().forEach(enemy => {
+      if (!enemy.active) return;
+
+      const points = Phaser.Geom.Intersects.GetLineToRectangle(line, enemy.getBounds());
+      points.forEach(point => {
+        const distance = Phaser.Math.Distance.Between(line.x1, line.y1, point.x, point.y);
+        if (distance < closestDistance) {
+          closestDistance = distance;
+          closest = { enemy, point: new Phaser.Math.Vector2(point.x, point.y) };
+        }
+      });
+    });
+
+    return closest;
+  }
+
+  public update(): void {
+    super.update();
+
+    this.updateSpin();
+
+    if (!this.isLatched) return;
+
+    // Follow the player while the rope is attached
+    const anchor = this.owner?.getGrappleAnchor();
+    if (!this.owner || !anchor) {
+      this.isLatched = false;
+      this.clearLine();
+      return;
+    }
+
+    this.whipLine?.setTo(this.owner.x, this.owner.y, anchor.x, anchor.y);
+  }
+
+  private updateSpin(): void {
+    if (this.spinFrames <= 0) return;
+
+    this.spinFrames--;
+    if (this.spinFrames === 0 || !this.owner) {
+      this.spinFrames = 0;
+      this.spinCircle?.destroy();
+      this.spinCircle = null;
+      return;
+    }
+
+    // Spin follows the player and rotates for a little visual flair
+    this.spinCircle?.setPosition(this.owner.x, this.owner.y);
+    this.spinCircle?.setRotation(this.spinCircle.rotation + 0.5);
+  }
+
+  private clearLine(): void {
+    if (this.whipLine) {
+      this.whipLine.destroy();
+      this.whipLine = null;
+    }
+  }
+
   /**
    * Get current whip line for visualization
    */
@@ -58,10 +177,42 @@ export class CalamariWhip extends WeaponBase {
     return this.whipLine;
   }
 
+  public getHitVolumes(): HitVolume[] {
+    const volumes: HitVolume[] = [];
+
+    if (this.whipGeom) {
+      volumes.push({
+        attackId: this.attackId,
+        shape: this.whipGeom,
+        damage: this.stats.damage,
+        saturation: this.stats.saturationPerHit,
+        statusEffect: this.stats.statusEffect,
+      });
+    }
+
+    if (this.spinFrames > 0 && this.owner) {
+      const secondary = this.stats.secondary!;
+      volumes.push({
+        attackId: this.secondaryAttackId,
+        shape: new Phaser.Geom.Circle(this.owner.x, this.owner.y, secondary.range!),
+        damage: secondary.damage,
+        saturation: secondary.saturationPerHit,
+        statusEffect: secondary.statusEffect,
+      });
+    }
+
+    return volumes;
+  }
+
   public destroy(): void {
-    if (this.whipLine) {
-      this.whipLine.destroy();
-      this.whipLine = null;
+    if (this.isLatched && this.owner?.isGrappling()) {
+      this.owner.releaseGrapple(false);
     }
+    this.isLatched = false;
+    this.clearLine();
+    this.whipGeom = null;
+    this.spinFrames = 0;
+    this.spinCircle?.destroy();
+    this.spinCircle = null;
   }
 }
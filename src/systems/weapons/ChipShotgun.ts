@@ -1,24 +1,25 @@
-import { WeaponBase, WeaponType, WeaponConfig } from './WeaponBase';
-import { Projectile, ProjectileConfig } from './Projectile';
+import Phaser from 'phaser';
+import { WeaponBase, WeaponConfig, HitVolume } from './WeaponBase';
+import { Projectile, ProjectileConfig, ProjectileImpact, ProjectileImpactInfo } from './Projectile';
+import { ImpactEffects } from './ImpactEffects';
 import { ObjectPool } from '../../utils/ObjectPool';
 
 /**
  * Chip Shotgun - Spread projectile weapon
- * Fires 3 projectiles in a cone pattern
+ * Fires a fan of projectiles (pellets/spreadAngle, upgradable)
+ * Secondary: a single fast, heavy slug that ricochets off terrain
+ * Chips crumble on terrain
  */
 export class ChipShotgun extends WeaponBase {
+  private readonly DEFAULT_PELLETS = 3;
+  private readonly DEFAULT_SPREAD_ANGLE = 15;
+  private readonly SLUG_BOUNCES = 2;
+
   private projectilePool: ObjectPool<Projectile>;
   private projectiles: Set<Projectile> = new Set();
+  private terrainCollider: Phaser.Physics.Arcade.Collider | null = null;
 
-  constructor(scene: Phaser.Scene) {
-    const config: WeaponConfig = {
-      type: WeaponType.CHIP_SHOTGUN,
-      name: 'Chip Shotgun',
-      fireRate: 30,  // 500ms between shots at 60fps
-      damage: 5,
-      saturationPerHit: 3,
-      projectileSpeed: 200,
-    };
+  constructor(scene: Phaser.Scene, config: WeaponConfig) {
     super(scene, config);
 
     this.projectilePool = new ObjectPool<Projectile>(scene, Projectile, 30);
@@ -27,37 +28,86 @@ export class ChipShotgun extends WeaponBase {
   protected onFire(direction: { x: number; y: number }): void {
     if (!this.owner) return;
 
-    const spreadAngles = [-15, 0, 15]; // Degrees
+    const pellets = this.stats.pellets ?? this.DEFAULT_PELLETS;
+    const spreadAngle = this.stats.spreadAngle ?? this.DEFAULT_SPREAD_ANGLE; // Degrees
     const baseAngle = Math.atan2(direction.y, direction.x);
 
-    spreadAngles.forEach(offset => {
+    // Fan the pellets evenly around the aim direction
+    for (let i = 0; i < pellets; i++) {
+      const offset = (i - (pellets - 1) / 2) * spreadAngle;
       const angleRad = baseAngle + (offset * Math.PI / 180);
-      const velocity = {
-        x: Math.cos(angleRad) * this.config.projectileSpeed!,
-        y: Math.sin(angleRad) * this.config.projectileSpeed!,
-      };
-
-      const projectile = this.projectilePool.get();
-      if (projectile) {
-        const projectileConfig: ProjectileConfig = {
-          sprite: 'chip-projectile',
-          speed: this.config.projectileSpeed!,
-          damage: this.config.damage,
-          saturation: this.config.saturationPerHit,
-          lifetime: 120, // 2 seconds at 60fps
-        };
-
-        projectile.launch(this.owner!.x, this.owner!.y, velocity, projectileConfig);
-        this.projectiles.add(projectile);
-      }
-    });
+      this.launchProjectile(angleRad, {
+        sprite: 'chip-projectile',
+        speed: this.stats.projectileSpeed!,
+        damage: this.stats.damage,
+        saturation: this.stats.saturationPerHit,
+        lifetime: 120, // 2 seconds at 60fps
+        impact: ProjectileImpact.DESTROY,
+        statusEffect: this.stats.statusEffect,
+        onImpact: (_projectile, info) => this.onChipImpact(info),
+      });
+    }
 
-    console.log(`Chip Shotgun fired 3 projectiles in spread pattern`);
+    console.log(`Chip Shotgun fired ${pellets} projectiles in spread pattern`);
 
     // TODO: Play shotgun sound
     // TODO: Muzzle flash effect
   }
 
+  protected onSecondaryFire(direction: { x: number; y: number }): void {
+    if (!this.owner) return;
+
+    const secondary = this.stats.secondary!;
+    this.launchProjectile(Math.atan2(direction.y, direction.x), {
+      sprite: 'chip-projectile',
+      speed: secondary.projectileSpeed!,
+      damage: secondary.damage,
+      saturation: secondary.saturationPerHit,
+      lifetime: 120,
+      impact: ProjectileImpact.BOUNCE,
+      bounces: this.SLUG_BOUNCES,
+      statusEffect: secondary.statusEffect,
+      onImpact: (_projectile, info) => this.onChipImpact(info),
+    });
+
+    console.log(`Chip Shotgun fired a slug`);
+  }
+
+  /**
+   * Launch one pooled projectile along an angle
+   */
+  private launchProjectile(angleRad: number, projectileConfig: ProjectileConfig): void {
+    const velocity = {
+      x: Math.cos(angleRad) * projectileConfig.speed,
+      y: Math.sin(angleRad) * projectileConfig.speed,
+    };
+
+    const projectile = this.projectilePool.get();
+    if (projectile) {
+      projectile.launch(this.owner!.x, this.owner!.y, velocity, projectileConfig);
+      this.projectiles.add(projectile);
+    }
+  }
+
+  /**
+   * Crumbs fly off wherever a chip or slug hits terrain
+   */
+  private onChipImpact(info: ProjectileImpactInfo): void {
+    ImpactEffects.sparks(this.scene, info.x, info.y, info.normal, 0xffdd66, info.final ? 4 : 2);
+
+    // TODO: Play impact/ricochet sound
+  }
+
+  /**
+   * Projectiles collide with the world layer
+   */
+  public setWorldLayer(layer: Phaser.Tilemaps.TilemapLayer): void {
+    super.setWorldLayer(layer);
+
+    this.terrainCollider?.destroy();
+    this.terrainCollider = Projectile.addTerrainCollider(this.scene, this.projectilePool.getGroup(), layer);
+  }
+
   public update(): void {
     super.update();
 
@@ -79,7 +129,20 @@ export class ChipShotgun extends WeaponBase {
     return this.projectilePool.getGroup();
   }
 
+  public getHitVolumes(): HitVolume[] {
+    const volumes: HitVolume[] = [];
+
+    this.projectiles.forEach(projectile => {
+      const volume = projectile.getHitVolume();
+      if (volume) volumes.push(volume);
+    });
+
+    return volumes;
+  }
+
   public destroy(): void {
+    this.terrainCollider?.destroy();
+    this.terrainCollider = null;
     this.projectiles.forEach(p => this.projectilePool.release(p));
     this.projectiles.clear();
     this.projectilePool.clear();
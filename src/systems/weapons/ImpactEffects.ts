@@ -0,0 +1,54 @@
+import Phaser from 'phaser';
+
+/**
+ * Small one-shot visual effects for projectile impacts
+ * Placeholder shapes until particle assets exist
+ */
+export class ImpactEffects {
+  /**
+   * Burst of sparks/crumbs thrown off a surface along its normal
+   */
+  public static sparks(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    normal: { x: number; y: number },
+    color: number,
+    count: number = 4
+  ): void {
+    const baseAngle = Math.atan2(normal.y, normal.x);
+
+    for (let i = 0; i < count; i++) {
+      const angle = baseAngle + Phaser.Math.FloatBetween(-0.9, 0.9);
+      const distance = Phaser.Math.Between(4, 10);
+      const spark = scene.add.rectangle(x, y, 2, 2, color);
+      spark.setDepth(50);
+
+      scene.tweens.add({
+        targets: spark,
+        x: x + Math.cos(angle) * distance,
+        y: y + Math.sin(angle) * distance,
+        alpha: 0,
+        duration: 200,
+        onComplete: () => spark.destroy(),
+      });
+    }
+  }
+
+  /**
+   * Expanding ring that fades out (bigger explosive impacts)
+   */
+  public static burst(scene: Phaser.Scene, x: number, y: number, color: number, radius: number = 10): void {
+    const ring = scene.add.circle(x, y, radius, color, 0.6);
+    ring.setDepth(50);
+    ring.setScale(0.3);
+
+    scene.tweens.add({
+      targets: ring,
+      scale: 1,
+      alpha: 0,
+      duration: 250,
+      onComplete: () => ring.destroy(),
+    });
+  }
+}
@@ -1,23 +1,32 @@
-import { WeaponBase, WeaponType, WeaponConfig } from './WeaponBase';
+import Phaser from 'phaser';
+import { WeaponBase, WeaponConfig, HitVolume } from './WeaponBase';
+import { Projectile, ProjectileConfig, ProjectileImpact } from './Projectile';
+import { ImpactEffects } from './ImpactEffects';
+import { ObjectPool } from '../../utils/ObjectPool';
 
 /**
  * Masala Flamer - Continuous damage cone/beam
- * Damages all enemies in cone while held
+ * Damages all enemies in cone while held and sets them Burning,
+ * so damage keeps ticking after the cone moves away
+ * Secondary: a lobbed-straight fireball that sets its target Burning
+ * and bursts on terrain
  */
 export class MasalaFlamer extends WeaponBase {
+  private readonly CONE_HALF_WIDTH = 20;
+  private readonly BURN_DURATION = 120;      // 2 seconds at 60fps
+  private readonly BURN_DAMAGE_PER_TICK = 1;
+
   private flameCone: Phaser.GameObjects.Triangle | null = null;
+  private coneGeom: Phaser.Geom.Triangle | null = null; // World-space cone for hit tests
   private isFiring: boolean = false;
+  private fireballPool: ObjectPool<Projectile>;
+  private fireballs: Set<Projectile> = new Set();
+  private terrainCollider: Phaser.Physics.Arcade.Collider | null = null;
 
-  constructor(scene: Phaser.Scene) {
-    const config: WeaponConfig = {
-      type: WeaponType.MASALA_FLAMER,
-      name: 'Masala Flamer',
-      fireRate: 2,   // Continuous fire, 2 frames between damage ticks
-      damage: 1,     // Low damage per tick
-      saturationPerHit: 0.5,
-      range: 80,     // Flame cone range
-    };
+  constructor(scene: Phaser.Scene, config: WeaponConfig) {
     super(scene, config);
+
+    this.fireballPool = new ObjectPool<Projectile>(scene, Projectile, 10);
   }
 
   protected onFire(direction: { x: number; y: number }): void {
@@ -25,36 +34,96 @@ export class MasalaFlamer extends WeaponBase {
 
     this.isFiring = true;
 
-    // Create flame cone visual
+    // Create flame cone visual (origin at the apex so it rotates around the player)
     if (!this.flameCone) {
-      const coneSize = this.config.range!;
+      const coneSize = this.stats.range!;
       this.flameCone = this.scene.add.triangle(
         this.owner.x, this.owner.y,
-        0, 0,
-        coneSize, -20,
-        coneSize, 20,
+        0, this.CONE_HALF_WIDTH,
+        coneSize, 0,
+        coneSize, this.CONE_HALF_WIDTH * 2,
         0xff6600,
         0.6
       );
+      this.flameCone.setOrigin(0, 0.5);
     }
 
     // Update cone position and rotation
     this.flameCone.setPosition(this.owner.x, this.owner.y);
     const angle = Math.atan2(direction.y, direction.x);
     this.flameCone.setRotation(angle);
+    this.coneGeom = this.buildConeGeom(this.owner.x, this.owner.y, angle);
 
-    console.log(`Masala Flamer firing continuously`);
-
-    // TODO: Apply damage to all enemies in cone
     // TODO: Particle effects
     // TODO: Flame sound (looping)
   }
 
+  protected onSecondaryFire(direction: { x: number; y: number }): void {
+    if (!this.owner) return;
+
+    const secondary = this.stats.secondary!;
+    const angle = Math.atan2(direction.y, direction.x);
+    const velocity = {
+      x: Math.cos(angle) * secondary.projectileSpeed!,
+      y: Math.sin(angle) * secondary.projectileSpeed!,
+    };
+
+    const fireball = this.fireballPool.get();
+    if (fireball) {
+      const projectileConfig: ProjectileConfig = {
+        sprite: 'fireball-projectile',
+        speed: secondary.projectileSpeed!,
+        damage: secondary.damage,
+        saturation: secondary.saturationPerHit,
+        lifetime: 90, // 1.5 seconds at 60fps
+        impact: ProjectileImpact.DESTROY,
+        statusEffect: secondary.statusEffect,
+        onImpact: (_projectile, info) => {
+          ImpactEffects.burst(this.scene, info.x, info.y, 0xff6600);
+          ImpactEffects.sparks(this.scene, info.x, info.y, info.normal, 0xffaa00, 6);
+        },
+      };
+
+      fireball.launch(this.owner.x, this.owner.y, velocity, projectileConfig);
+      fireball.setTint(0xff6600);
+      this.fireballs.add(fireball);
+    }
+
+    console.log('Masala Flamer launched a fireball');
+  }
+
+  /**
+   * Fireballs collide with the world layer
+   */
+  public setWorldLayer(layer: Phaser.Tilemaps.TilemapLayer): void {
+    super.setWorldLayer(layer);
+
+    this.terrainCollider?.destroy();
+    this.terrainCollider = Projectile.addTerrainCollider(this.scene, this.fireballPool.getGroup(), layer);
+  }
+
+  /**
+   * Build the cone triangle in world space, pointing along the given angle
+   */
+  private buildConeGeom(x: number, y: number, angle: number): Phaser.Geom.Triangle {
+    const range = this.stats.range!;
+    const halfWidth = this.CONE_HALF_WIDTH;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return new Phaser.Geom.Triangle(
+      x, y,
+      x + range * cos + halfWidth * sin, y + range * sin - halfWidth * cos,
+      x + range * cos - halfWidth * sin, y + range * sin + halfWidth * cos
+    );
+  }
+
   /**
    * Stop firing (called when input released)
    */
   public stopFiring(): void {
     this.isFiring = false;
+    this.coneGeom = null;
     if (this.flameCone) {
       this.flameCone.destroy();
       this.flameCone = null;
@@ -67,7 +136,43 @@ export class MasalaFlamer extends WeaponBase {
     if (!this.isFiring && this.flameCone) {
       this.flameCone.destroy();
       this.flameCone = null;
+      this.coneGeom = null;
     }
+
+    // Update all active fireballs
+    this.fireballs.forEach(fireball => {
+      if (!fireball.active) {
+        this.fireballs.delete(fireball);
+        this.fireballPool.release(fireball);
+      } else {
+        fireball.update();
+      }
+    });
+  }
+
+  public getHitVolumes(): HitVolume[] {
+    const volumes: HitVolume[] = [];
+
+    // Each fire() is a damage tick with its own attack id
+    if (this.coneGeom) {
+      volumes.push({
+        attackId: this.attackId,
+        shape: this.coneGeom,
+        damage: this.stats.damage,
+        saturation: this.stats.saturationPerHit,
+        statusEffect: this.stats.statusEffect,
+        onHit: enemy => enemy.applyBurning(this.BURN_DURATION, this.BURN_DAMAGE_PER_TICK),
+      });
+    }
+
+    this.fireballs.forEach(fireball => {
+      const volume = fireball.getHitVolume(enemy => {
+        enemy.applyBurning(this.BURN_DURATION, this.BURN_DAMAGE_PER_TICK);
+      });
+      if (volume) volumes.push(volume);
+    });
+
+    return volumes;
   }
 
   /**
@@ -78,6 +183,12 @@ export class MasalaFlamer extends WeaponBase {
   }
 
   public destroy(): void {
+    this.terrainCollider?.destroy();
+    this.terrainCollider = null;
+    this.fireballs.forEach(f => this.fireballPool.release(f));
+    this.fireballs.clear();
+    this.fireballPool.clear();
+    this.coneGeom = null;
     if (this.flameCone) {
       this.flameCone.destroy();
       this.flameCone = null;
@@ -1,29 +1,33 @@
-import { WeaponBase, WeaponType, WeaponConfig } from './WeaponBase';
+import Phaser from 'phaser';
+import { WeaponBase, HitVolume } from './WeaponBase';
 
 /**
  * Polony Pummeler - Melee weapon with kinetic knockback
  * Creates a short-range hitbox in front of player
+ * Secondary: hold to charge a Ground Pound, release to slam a shockwave
+ * (secondary damage and range are full-charge values; no charge gives half)
  */
 export class PolonyPummeler extends WeaponBase {
+  private readonly MAX_CHARGE_FRAMES = 60;    // 1 second to full charge
+  private readonly SLAM_FALL_SPEED = 400;     // Downward dive when released in mid-air
+  private readonly SHOCKWAVE_FRAMES = 6;      // Shockwave active for 100ms
+
   private hitbox: Phaser.GameObjects.Zone | null = null;
 
-  constructor(scene: Phaser.Scene) {
-    const config: WeaponConfig = {
-      type: WeaponType.POLONY_PUMMELER,
-      name: 'Polony Pummeler',
-      fireRate: 15,  // 250ms between swings at 60fps
-      damage: 10,
-      saturationPerHit: 5,
-      range: 24,     // Melee range in pixels
-    };
-    super(scene, config);
-  }
+  // Ground pound state
+  private isCharging: boolean = false;
+  private chargeFrames: number = 0;
+  private isSlamming: boolean = false;
+  private slamCharge: number = 0;
+  private shockwave: Phaser.Geom.Rectangle | null = null;
+  private shockwaveFrames: number = 0;
+  private shockwaveVisual: Phaser.GameObjects.Rectangle | null = null;
 
   protected onFire(direction: { x: number; y: number }): void {
     if (!this.owner) return;
 
     // Create hitbox in front of player
-    const hitboxX = this.owner.x + (direction.x * this.config.range!);
+    const hitboxX = this.owner.x + (direction.x * this.stats.range!);
     const hitboxY = this.owner.y;
 
     this.hitbox = this.scene.add.zone(hitboxX, hitboxY, 20, 24);
@@ -43,6 +47,96 @@ export class PolonyPummeler extends WeaponBase {
     // TODO: Play swing sound
   }
 
+  protected onSecondaryFire(_direction: { x: number; y: number }): void {
+    // Start charging - the slam happens on release
+    this.isCharging = true;
+    this.chargeFrames = 0;
+  }
+
+  public releaseSecondary(_direction: { x: number; y: number }): void {
+    if (!this.isCharging || !this.owner?.body) return;
+
+    this.isCharging = false;
+    this.slamCharge = this.chargeFrames / this.MAX_CHARGE_FRAMES;
+
+    // Cooldown runs from the slam, not from when charging started
+    this.secondaryCooldownFrames = this.stats.secondary!.fireRate;
+
+    const body = this.owner.body as Phaser.Physics.Arcade.Body;
+    if (body.onFloor()) {
+      this.triggerShockwave();
+    } else {
+      // Dive down and pound on landing
+      this.isSlamming = true;
+      body.setVelocityY(this.SLAM_FALL_SPEED);
+    }
+  }
+
+  public cancelSecondary(): void {
+    // Holstered weapons still update - don't let a pending dive land later
+    this.isCharging = false;
+    this.chargeFrames = 0;
+    this.isSlamming = false;
+    this.slamCharge = 0;
+  }
+
+  /**
+   * Create the shockwave at the player's feet, scaled by charge
+   */
+  private triggerShockwave(): void {
+    if (!this.owner?.body) return;
+
+    const secondary = this.stats.secondary!;
+    const body = this.owner.body as Phaser.Physics.Arcade.Body;
+    const halfWidth = secondary.range! * (0.5 + 0.5 * this.slamCharge);
+    const height = 16;
+
+    this.shockwave = new Phaser.Geom.Rectangle(
+      body.center.x - halfWidth,
+      body.bottom - height,
+      halfWidth * 2,
+      height
+    );
+    this.shockwaveFrames = this.SHOCKWAVE_FRAMES;
+
+    this.shockwaveVisual?.destroy();
+    this.shockwaveVisual = this.scene.add.rectangle(
+      this.shockwave.centerX, this.shockwave.centerY,
+      this.shockwave.width, this.shockwave.height,
+      0xffcc88, 0.5
+    );
+
+    console.log(`Polony Pummeler ground pound (charge ${Math.round(this.slamCharge * 100)}%)`);
+
+    // TODO: Screen shake
+    // TODO: Play slam sound
+  }
+
+  public update(): void {
+    super.update();
+
+    if (this.isCharging && this.chargeFrames < this.MAX_CHARGE_FRAMES) {
+      this.chargeFrames++;
+    }
+
+    if (this.isSlamming && this.owner?.body) {
+      const body = this.owner.body as Phaser.Physics.Arcade.Body;
+      if (body.onFloor()) {
+        this.isSlamming = false;
+        this.triggerShockwave();
+      }
+    }
+
+    if (this.shockwaveFrames > 0) {
+      this.shockwaveFrames--;
+      if (this.shockwaveFrames === 0) {
+        this.shockwave = null;
+        this.shockwaveVisual?.destroy();
+        this.shockwaveVisual = null;
+      }
+    }
+  }
+
   /**
    * Get current hitbox for collision detection
    */
@@ -50,10 +144,42 @@ export class PolonyPummeler extends WeaponBase {
     return this.hitbox;
   }
 
+  public getHitVolumes(): HitVolume[] {
+    const volumes: HitVolume[] = [];
+
+    if (this.hitbox) {
+      volumes.push({
+        attackId: this.attackId,
+        shape: this.hitbox.getBounds(),
+        damage: this.stats.damage,
+        saturation: this.stats.saturationPerHit,
+        statusEffect: this.stats.statusEffect,
+      });
+    }
+
+    if (this.shockwave) {
+      const secondary = this.stats.secondary!;
+      volumes.push({
+        attackId: this.secondaryAttackId,
+        shape: this.shockwave,
+        damage: secondary.damage * (0.5 + 0.5 * this.slamCharge),
+        saturation: secondary.saturationPerHit,
+        statusEffect: secondary.statusEffect,
+      });
+    }
+
+    return volumes;
+  }
+
   public destroy(): void {
     if (this.hitbox) {
       this.hitbox.destroy();
       this.hitbox = null;
     }
+    this.shockwaveVisual?.destroy();
+    this.shockwaveVisual = null;
+    this.shockwave = null;
+    this.isCharging = false;
+    this.isSlamming = false;
   }
 }
@@ -1,4 +1,29 @@
 import Phaser from 'phaser';
+import { createAttackId, HitVolume } from './WeaponBase';
+import { Enemy } from '../../entities/Enemy';
+import { StatusEffectSpec } from '../status/StatusEffectFactory';
+
+/**
+ * What a projectile does when it hits a colliding tile
+ */
+export enum ProjectileImpact {
+  DESTROY = 'destroy', // Removed on impact (default)
+  BOUNCE = 'bounce',   // Ricochets off terrain `bounces` times, removed on the next impact
+  STICK = 'stick',     // Embeds in terrain and stops dealing damage
+  PIERCE = 'pierce',   // Passes through terrain (and through enemies)
+}
+
+/**
+ * Details of a terrain impact passed to onImpact
+ */
+export interface ProjectileImpactInfo {
+  x: number;
+  y: number;
+  tile: Phaser.Tilemaps.Tile;
+  normal: { x: number; y: number }; // Surface normal (pierce: opposite of travel)
+  impact: ProjectileImpact;
+  final: boolean;                   // True if this impact ends the projectile's flight
+}
 
 export interface ProjectileConfig {
   sprite: string;
@@ -6,16 +31,32 @@ export interface ProjectileConfig {
   damage: number;
   saturation: number;
   lifetime: number; // Frames
+  impact?: ProjectileImpact;
+  bounces?: number;       // BOUNCE: ricochets before the next impact destroys it (default 1)
+  stickFrames?: number;   // STICK: frames to stay embedded (default 60)
+  statusEffect?: StatusEffectSpec; // Applied to enemies it hits
+  onImpact?: (projectile: Projectile, info: ProjectileImpactInfo) => void; // e.g. spawn effects
 }
 
 /**
  * Poolable projectile class
  * Used by Chip Shotgun and potentially other ranged weapons
+ * Terrain collision is set up per pool with Projectile.addTerrainCollider
  */
 export class Projectile extends Phaser.Physics.Arcade.Sprite {
+  private readonly DEFAULT_STICK_FRAMES = 60;
+
   private lifetimeFrames: number = 0;
   private _damage: number = 0;
   private _saturation: number = 0;
+  private attackId: number = 0;
+  private impact: ProjectileImpact = ProjectileImpact.DESTROY;
+  private bouncesLeft: number = 0;
+  private stickFrames: number = 0;
+  private stuck: boolean = false;
+  private lastPiercedTile: Phaser.Tilemaps.Tile | null = null;
+  private statusEffect?: StatusEffectSpec;
+  private onImpact?: (projectile: Projectile, info: ProjectileImpactInfo) => void;
 
   constructor(scene: Phaser.Scene, x: number, y: number) {
     // Create a simple placeholder texture
@@ -30,6 +71,23 @@ export class Projectile extends Phaser.Physics.Arcade.Sprite {
     scene.physics.add.existing(this);
   }
 
+  /**
+   * Collide a pool of projectiles with a tile layer (tiles with 'collides')
+   * Call once per pool, after the layer exists
+   */
+  public static addTerrainCollider(
+    scene: Phaser.Scene,
+    group: Phaser.GameObjects.Group,
+    layer: Phaser.Tilemaps.TilemapLayer
+  ): Phaser.Physics.Arcade.Collider {
+    return scene.physics.add.collider(
+      group,
+      layer,
+      (projectile, tile) => (projectile as Projectile).handleTerrainImpact(tile as Phaser.Tilemaps.Tile),
+      (projectile, tile) => (projectile as Projectile).shouldSeparate(tile as Phaser.Tilemaps.Tile)
+    );
+  }
+
   /**
    * Launch the projectile
    */
@@ -37,18 +95,110 @@ export class Projectile extends Phaser.Physics.Arcade.Sprite {
     this.setPosition(x, y);
     this.setActive(true);
     this.setVisible(true);
+    this.clearTint();
 
     const body = this.body as Phaser.Physics.Arcade.Body;
+    body.enable = true;
+    body.reset(x, y);
     body.setVelocity(velocity.x, velocity.y);
     body.setAllowGravity(false); // Projectiles ignore gravity
 
     this._damage = config.damage;
     this._saturation = config.saturation;
     this.lifetimeFrames = config.lifetime;
+    this.attackId = createAttackId();
+
+    this.impact = config.impact ?? ProjectileImpact.DESTROY;
+    this.bouncesLeft = config.bounces ?? 1;
+    this.stickFrames = config.stickFrames ?? this.DEFAULT_STICK_FRAMES;
+    this.stuck = false;
+    this.lastPiercedTile = null;
+    this.onImpact = config.onImpact;
+    this.statusEffect = config.statusEffect;
+
+    // Arcade separation reflects velocity for us when bouncing
+    body.setBounce(this.impact === ProjectileImpact.BOUNCE ? 1 : 0);
 
     // TODO: Set texture based on config.sprite when assets loaded
   }
 
+  /**
+   * Collider process callback - pierce overlaps instead of separating
+   */
+  private shouldSeparate(tile: Phaser.Tilemaps.Tile): boolean {
+    if (!this.active || this.stuck) return false;
+
+    if (this.impact === ProjectileImpact.PIERCE) {
+      // Report each tile once as the projectile passes into it
+      if (tile !== this.lastPiercedTile) {
+        this.lastPiercedTile = tile;
+        const body = this.body as Phaser.Physics.Arcade.Body;
+        const speed = body.velocity.length() || 1;
+        this.notifyImpact(tile, { x: -body.velocity.x / speed, y: -body.velocity.y / speed }, false);
+      }
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Collider callback - runs after separation from a solid tile
+   */
+  private handleTerrainImpact(tile: Phaser.Tilemaps.Tile): void {
+    if (!this.active || this.stuck) return;
+
+    const normal = this.getImpactNormal();
+
+    switch (this.impact) {
+      case ProjectileImpact.BOUNCE:
+        if (this.bouncesLeft > 0) {
+          this.bouncesLeft--;
+          this.notifyImpact(tile, normal, false);
+          return;
+        }
+        this.notifyImpact(tile, normal, true);
+        this.deactivate();
+        break;
+
+      case ProjectileImpact.STICK: {
+        this.stuck = true;
+        const body = this.body as Phaser.Physics.Arcade.Body;
+        body.setVelocity(0, 0);
+        body.moves = false;
+        this.lifetimeFrames = this.stickFrames;
+        this.notifyImpact(tile, normal, true);
+        break;
+      }
+
+      default:
+        this.notifyImpact(tile, normal, true);
+        this.deactivate();
+    }
+  }
+
+  /**
+   * Surface normal from the sides the body was blocked on this step
+   */
+  private getImpactNormal(): { x: number; y: number } {
+    const blocked = (this.body as Phaser.Physics.Arcade.Body).blocked;
+    const x = blocked.left ? 1 : blocked.right ? -1 : 0;
+    const y = blocked.up ? 1 : blocked.down ? -1 : 0;
+    const length = Math.hypot(x, y) || 1;
+    return { x: x / length, y: y / length };
+  }
+
+  private notifyImpact(tile: Phaser.Tilemaps.Tile, normal: { x: number; y: number }, final: boolean): void {
+    this.onImpact?.(this, {
+      x: this.x,
+      y: this.y,
+      tile,
+      normal,
+      impact: this.impact,
+      final,
+    });
+  }
+
   /**
    * Update projectile (called each frame)
    */
@@ -58,8 +208,12 @@ export class Projectile extends Phaser.Physics.Arcade.Sprite {
     this.lifetimeFrames--;
     if (this.lifetimeFrames <= 0) {
       this.deactivate();
+      return;
     }
 
+    // Stuck projectiles keep the angle they hit at
+    if (this.stuck) return;
+
     // Rotate to face velocity direction
     const body = this.body as Phaser.Physics.Arcade.Body;
     if (body) {
@@ -67,18 +221,51 @@ export class Projectile extends Phaser.Physics.Arcade.Sprite {
     }
   }
 
+  /**
+   * Hit volume for this frame (null once it can no longer damage)
+   * Piercing projectiles carry on through enemies; the rest are spent on the first hit
+   */
+  public getHitVolume(onHit?: (enemy: Enemy) => void): HitVolume | null {
+    if (!this.active || this.stuck) return null;
+
+    const piercing = this.impact === ProjectileImpact.PIERCE;
+    return {
+      attackId: this.attackId,
+      shape: this.getBounds(),
+      damage: this._damage,
+      saturation: this._saturation,
+      maxHits: piercing ? undefined : 1,
+      statusEffect: this.statusEffect,
+      onHit: enemy => {
+        onHit?.(enemy);
+        // Recycle on hit - the owning weapon releases inactive projectiles to the pool
+        if (!piercing) this.deactivate();
+      },
+    };
+  }
+
   /**
    * Deactivate projectile (return to pool)
    */
   public deactivate(): void {
     this.setActive(false);
     this.setVisible(false);
+    this.stuck = false;
     const body = this.body as Phaser.Physics.Arcade.Body;
     if (body) {
       body.setVelocity(0, 0);
+      body.moves = true;
+      body.enable = false; // Pooled projectiles shouldn't collide
     }
   }
 
+  /**
+   * Check if the projectile is embedded in terrain
+   */
+  public isStuck(): boolean {
+    return this.stuck;
+  }
+
   /**
    * Get damage value
    */
@@ -92,4 +279,11 @@ export class Projectile extends Phaser.Physics.Arcade.Sprite {
   public getSaturation(): number {
     return this._saturation;
   }
+
+  /**
+   * Get the attack id for this launch (unique per shot)
+   */
+  public getAttackId(): number {
+    return this.attackId;
+  }
 }
@@ -1,5 +1,12 @@
 import Phaser from 'phaser';
 import { Player } from '../../entities/Player';
+import { Enemy } from '../../entities/Enemy';
+import { WeaponResource } from './resources/WeaponResource';
+import { MagazineConfig } from './resources/MagazineResource';
+import { HeatConfig } from './resources/HeatResource';
+import { StaminaConfig } from './resources/StaminaResource';
+import { WeaponModifier, applyWeaponModifiers } from './WeaponStats';
+import { StatusEffectSpec } from '../status/StatusEffectFactory';
 
 export enum WeaponType {
   POLONY_PUMMELER = 'polonypummeler',
@@ -8,14 +15,70 @@ export enum WeaponType {
   MASALA_FLAMER = 'masalaflamer',
 }
 
+/**
+ * Alternate fire mode with its own cooldown (SECONDARY_FIRE action)
+ */
+export interface SecondaryFireConfig {
+  name: string;
+  fireRate: number;        // Frames between uses (separate from primary)
+  damage: number;
+  saturationPerHit: number;
+  range?: number;
+  projectileSpeed?: number;
+  statusEffect?: StatusEffectSpec; // Applied to enemies on hit
+}
+
 export interface WeaponConfig {
-  type: WeaponType;
+  id: string;              // Unique definition id (variants can share a type)
+  type: string;            // Behaviour key - a WeaponType or a registered custom behaviour
   name: string;
   fireRate: number;        // Frames between shots
   damage: number;
   saturationPerHit: number; // "Gatsby Sauce" saturation amount
   range?: number;
   projectileSpeed?: number;
+  pellets?: number;         // Projectiles per shot (spread weapons)
+  spreadAngle?: number;     // Degrees between pellets
+  secondary?: SecondaryFireConfig;
+  statusEffect?: StatusEffectSpec; // Applied to enemies on hit
+  startsUnlocked?: boolean; // Owned from the start (others need a pickup)
+
+  // Optional resource model (at most one) - without one the weapon only has cooldowns
+  magazine?: MagazineConfig;
+  heat?: HeatConfig;
+  stamina?: StaminaConfig;
+}
+
+/**
+ * Geometry a hit volume can take - tested against enemy bounds by CombatManager
+ */
+export type HitShape =
+  | Phaser.Geom.Rectangle
+  | Phaser.Geom.Line
+  | Phaser.Geom.Triangle
+  | Phaser.Geom.Circle;
+
+/**
+ * An active damaging area in world space for the current frame
+ */
+export interface HitVolume {
+  attackId: number;    // One swing/shot - an enemy is only hit once per attack
+  shape: HitShape;
+  damage: number;
+  saturation: number;
+  maxHits?: number;    // Stop resolving after this many enemies (e.g. projectiles)
+  statusEffect?: StatusEffectSpec; // Applied after the damage (so a hit can't shatter its own freeze)
+  onHit?: (enemy: Enemy) => void;
+}
+
+let attackCounter = 0;
+
+/**
+ * Allocate a unique attack id (one per swing, shot or damage tick)
+ */
+export function createAttackId(): number {
+  attackCounter++;
+  return attackCounter;
 }
 
 /**
@@ -24,13 +87,27 @@ export interface WeaponConfig {
  */
 export abstract class WeaponBase {
   protected scene: Phaser.Scene;
-  protected config: WeaponConfig;
+  protected config: WeaponConfig;  // Base definition - never mutated
+  protected stats: WeaponConfig;   // Effective stats (base + upgrade modifiers)
   protected cooldownFrames: number = 0;
+  protected secondaryCooldownFrames: number = 0;
   protected owner: Player | null = null;
+  protected attackId: number = 0;
+  protected secondaryAttackId: number = 0;
+  protected worldLayer: Phaser.Tilemaps.TilemapLayer | null = null;
+  protected resource: WeaponResource | null = null;
 
   constructor(scene: Phaser.Scene, config: WeaponConfig) {
     this.scene = scene;
     this.config = config;
+    this.stats = config;
+  }
+
+  /**
+   * Recompute effective stats from upgrade modifiers (base config is untouched)
+   */
+  public setModifiers(modifiers: WeaponModifier[]): void {
+    this.stats = applyWeaponModifiers(this.config, modifiers);
   }
 
   /**
@@ -40,6 +117,40 @@ export abstract class WeaponBase {
     this.owner = owner;
   }
 
+  /**
+   * Set the collision layer weapons can hit or latch onto
+   */
+  public setWorldLayer(layer: Phaser.Tilemaps.TilemapLayer): void {
+    this.worldLayer = layer;
+  }
+
+  /**
+   * Attach the weapon's resource (owned by WeaponManager so it survives scene changes)
+   */
+  public setResource(resource: WeaponResource | null): void {
+    this.resource = resource;
+  }
+
+  /**
+   * Get the weapon's resource (null if it only has cooldowns)
+   */
+  public getResource(): WeaponResource | null {
+    return this.resource;
+  }
+
+  /**
+   * Check the resource before a shot - refused shots notify the resource
+   */
+  private hasResourceFor(secondary: boolean): boolean {
+    if (!this.resource) return true;
+
+    if (!this.resource.canUse(this.resource.getCost(secondary))) {
+      this.resource.notifyBlocked();
+      return false;
+    }
+    return true;
+  }
+
   /**
    * Update weapon state (cooldowns, etc.)
    */
@@ -47,36 +158,114 @@ export abstract class WeaponBase {
     if (this.cooldownFrames > 0) {
       this.cooldownFrames--;
     }
+    if (this.secondaryCooldownFrames > 0) {
+      this.secondaryCooldownFrames--;
+    }
   }
 
   /**
    * Attempt to fire the weapon
-   * Returns true if fired, false if on cooldown
+   * Returns true if fired, false if on cooldown or out of resource
    */
   public fire(direction: { x: number; y: number }): boolean {
     if (this.cooldownFrames > 0 || !this.owner) return false;
 
+    if (!this.hasResourceFor(false)) {
+      // Continuous weapons cut out when empty/overheated
+      this.stopFiring();
+      return false;
+    }
+
+    this.attackId = createAttackId();
     this.onFire(direction);
-    this.cooldownFrames = this.config.fireRate;
+    this.resource?.consume(this.resource.getCost(false));
+    this.cooldownFrames = this.stats.fireRate;
+    return true;
+  }
+
+  /**
+   * Attempt to use the alternate fire mode
+   * Returns true if fired, false if unsupported, on cooldown or out of resource
+   */
+  public fireSecondary(direction: { x: number; y: number }): boolean {
+    if (!this.stats.secondary || this.secondaryCooldownFrames > 0 || !this.owner) return false;
+    if (!this.hasResourceFor(true)) return false;
+
+    this.secondaryAttackId = createAttackId();
+    this.onSecondaryFire(direction);
+    this.resource?.consume(this.resource.getCost(true));
+    this.secondaryCooldownFrames = this.stats.secondary.fireRate;
     return true;
   }
 
+  /**
+   * Secondary fire input released (used by charged attacks)
+   */
+  public releaseSecondary(_direction: { x: number; y: number }): void {
+    // No-op unless the secondary is charged
+  }
+
+  /**
+   * Abort a secondary in progress (e.g. weapon switched mid-charge)
+   */
+  public cancelSecondary(): void {
+    // No-op unless the secondary is charged
+  }
+
+  /**
+   * Weapon-specific alternate fire logic (optional)
+   */
+  protected onSecondaryFire(_direction: { x: number; y: number }): void {
+    // Weapons with a secondary config override this
+  }
+
+  /**
+   * Check if weapon has an alternate fire mode
+   */
+  public hasSecondaryFire(): boolean {
+    return this.config.secondary !== undefined;
+  }
+
+  /**
+   * Stop firing (called when fire input is released or weapon is switched)
+   * Only continuous weapons need to override this
+   */
+  public stopFiring(): void {
+    // No-op for single-shot weapons
+  }
+
   /**
    * Weapon-specific fire logic (implemented by subclasses)
    */
   protected abstract onFire(direction: { x: number; y: number }): void;
 
+  /**
+   * Active hit volumes this frame (resolved against enemies by CombatManager)
+   * Weapons without a damaging area return an empty list
+   */
+  public getHitVolumes(): HitVolume[] {
+    return [];
+  }
+
   /**
    * Check if weapon can fire
    */
   public canFire(): boolean {
-    return this.cooldownFrames === 0 && this.owner !== null;
+    const hasResource = !this.resource || this.resource.canUse(this.resource.getCost(false));
+    return this.cooldownFrames === 0 && this.owner !== null && hasResource;
+  }
+
+  /**
+   * Get weapon definition id
+   */
+  public getId(): string {
+    return this.config.id;
   }
 
   /**
-   * Get weapon type
+   * Get weapon behaviour type
    */
-  public getType(): WeaponType {
+  public getType(): string {
     return this.config.type;
   }
 
@@ -88,12 +277,19 @@ export abstract class WeaponBase {
   }
 
   /**
-   * Get weapon configuration
+   * Get base weapon configuration (without upgrades)
    */
   public getConfig(): WeaponConfig {
     return this.config;
   }
 
+  /**
+   * Get effective stats (base configuration plus upgrades)
+   */
+  public getStats(): WeaponConfig {
+    return this.stats;
+  }
+
   /**
    * Clean up weapon resources
    */
@@ -0,0 +1,263 @@
+import Phaser from 'phaser';
+import { WeaponBase, WeaponType, WeaponConfig, SecondaryFireConfig } from './WeaponBase';
+import { PolonyPummeler } from './PolonyPummeler';
+import { ChipShotgun } from './ChipShotgun';
+import { CalamariWhip } from './CalamariWhip';
+import { MasalaFlamer } from './MasalaFlamer';
+import { WeaponResource } from './resources/WeaponResource';
+import { MagazineResource } from './resources/MagazineResource';
+import { HeatResource } from './resources/HeatResource';
+import { StaminaResource } from './resources/StaminaResource';
+import { StatusEffectFactory } from '../status/StatusEffectFactory';
+
+export type WeaponBehaviourConstructor = new (scene: Phaser.Scene, config: WeaponConfig) => WeaponBase;
+
+/**
+ * Optional stats a behaviour can't work without
+ */
+type OptionalStat = 'range' | 'projectileSpeed';
+
+/**
+ * Resource model fields: required numbers (> 0) and optional numbers (>= 0)
+ */
+const RESOURCE_FIELDS: Record<'magazine' | 'heat' | 'stamina', { required: string[]; optional: string[] }> = {
+  magazine: { required: ['size', 'reloadFrames'], optional: ['reserve', 'maxReserve', 'cost', 'secondaryCost'] },
+  heat: { required: ['max', 'cost', 'coolRate'], optional: ['secondaryCost', 'coolDelayFrames', 'recoverAt'] },
+  stamina: { required: ['max', 'cost', 'regenRate'], optional: ['secondaryCost', 'regenDelayFrames'] },
+};
+
+export interface WeaponBehaviourOptions {
+  requires?: OptionalStat[];          // Required on the primary config
+  secondaryRequires?: OptionalStat[]; // Required on the secondary config (if present)
+}
+
+interface WeaponBehaviour {
+  create: WeaponBehaviourConstructor;
+  options: WeaponBehaviourOptions;
+}
+
+/**
+ * WeaponRegistry - Maps weapon definition types to behaviour classes
+ * Definitions are loaded from public/assets/data/weapons.json
+ *
+ * Custom behaviours register before the WeaponManager is created:
+ *   WeaponRegistry.registerBehaviour('boerewors-boomerang', BoereworsBoomerang, { requires: ['range'] });
+ */
+export class WeaponRegistry {
+  private static behaviours: Map<string, WeaponBehaviour> = new Map();
+
+  /**
+   * Register a behaviour class for a weapon type
+   */
+  public static registerBehaviour(
+    type: string,
+    create: WeaponBehaviourConstructor,
+    options: WeaponBehaviourOptions = {}
+  ): void {
+    if (WeaponRegistry.behaviours.has(type)) {
+      console.warn(`WeaponRegistry: Replacing behaviour for type '${type}'`);
+    }
+    WeaponRegistry.behaviours.set(type, { create, options });
+  }
+
+  /**
+   * Check if a behaviour is registered for a type
+   */
+  public static hasBehaviour(type: string): boolean {
+    return WeaponRegistry.behaviours.has(type);
+  }
+
+  /**
+   * Create a weapon from a validated definition
+   */
+  public static create(scene: Phaser.Scene, config: WeaponConfig): WeaponBase {
+    const behaviour = WeaponRegistry.behaviours.get(config.type);
+    if (!behaviour) {
+      throw new Error(`WeaponRegistry: No behaviour registered for type '${config.type}'`);
+    }
+    return new behaviour.create(scene, config);
+  }
+
+  /**
+   * Create the resource model for a definition (null if it has none)
+   */
+  public static createResource(config: WeaponConfig): WeaponResource | null {
+    if (config.magazine) return new MagazineResource(config.magazine);
+    if (config.heat) return new HeatResource(config.heat);
+    if (config.stamina) return new StaminaResource(config.stamina);
+    return null;
+  }
+
+  /**
+   * Validate raw definition data (the parsed weapons.json)
+   * Invalid definitions are logged and skipped; file order is kept
+   */
+  public static loadDefinitions(data: unknown): WeaponConfig[] {
+    const list = (data as { weapons?: unknown } | undefined)?.weapons;
+    if (!Array.isArray(list)) {
+      console.error('WeaponRegistry: Weapon definitions must have a "weapons" array');
+      return [];
+    }
+
+    const definitions: WeaponConfig[] = [];
+    const seenIds = new Set<string>();
+
+    list.forEach((entry, index) => {
+      const errors = WeaponRegistry.validateDefinition(entry);
+      const id = (entry as { id?: unknown })?.id;
+
+      if (typeof id === 'string' && seenIds.has(id)) {
+        errors.push(`duplicate id '${id}'`);
+      }
+
+      if (errors.length > 0) {
+        console.error(`WeaponRegistry: Skipping weapon definition #${index} - ${errors.join('; ')}`);
+        return;
+      }
+
+      const config = entry as WeaponConfig;
+      seenIds.add(config.id);
+      definitions.push(config);
+    });
+
+    console.log(`WeaponRegistry: Loaded ${definitions.length} weapon definitions`);
+    return definitions;
+  }
+
+  /**
+   * Return a list of problems with a definition (empty if valid)
+   */
+  private static validateDefinition(entry: unknown): string[] {
+    if (typeof entry !== 'object' || entry === null) {
+      return ['not an object'];
+    }
+
+    const def = entry as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof def.id !== 'string' || def.id.length === 0) errors.push('id must be a non-empty string');
+    if (typeof def.type !== 'string') {
+      errors.push('type must be a string');
+    } else if (!WeaponRegistry.behaviours.has(def.type)) {
+      errors.push(`unknown type '${def.type}'`);
+    }
+
+    errors.push(...WeaponRegistry.validateStats(def, ''));
+
+    if (def.pellets !== undefined && (!Number.isInteger(def.pellets) || (def.pellets as number) < 1)) {
+      errors.push('pellets must be an integer >= 1');
+    }
+    if (def.spreadAngle !== undefined && (typeof def.spreadAngle !== 'number' || def.spreadAngle < 0)) {
+      errors.push('spreadAngle must be a number >= 0');
+    }
+
+    if (def.startsUnlocked !== undefined && typeof def.startsUnlocked !== 'boolean') {
+      errors.push('startsUnlocked must be a boolean');
+    }
+
+    errors.push(...WeaponRegistry.validateResource(def));
+
+    const behaviour = typeof def.type === 'string' ? WeaponRegistry.behaviours.get(def.type) : undefined;
+    behaviour?.options.requires?.forEach(stat => {
+      if (def[stat] === undefined) errors.push(`${stat} is required for type '${def.type}'`);
+    });
+
+    if (def.secondary !== undefined) {
+      if (typeof def.secondary !== 'object' || def.secondary === null) {
+        errors.push('secondary must be an object');
+      } else {
+        const secondary = def.secondary as Record<string, unknown>;
+        errors.push(...WeaponRegistry.validateStats(secondary, 'secondary.'));
+        behaviour?.options.secondaryRequires?.forEach(stat => {
+          if (secondary[stat] === undefined) errors.push(`secondary.${stat} is required for type '${def.type}'`);
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the optional resource model (magazine, heat or stamina)
+   */
+  private static validateResource(def: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    const kinds = (Object.keys(RESOURCE_FIELDS) as Array<keyof typeof RESOURCE_FIELDS>)
+      .filter(kind => def[kind] !== undefined);
+
+    if (kinds.length > 1) {
+      errors.push(`only one resource model allowed (found ${kinds.join(', ')})`);
+    }
+
+    kinds.forEach(kind => {
+      const resource = def[kind];
+      if (typeof resource !== 'object' || resource === null) {
+        errors.push(`${kind} must be an object`);
+        return;
+      }
+
+      const fields = resource as Record<string, unknown>;
+      const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+      RESOURCE_FIELDS[kind].required.forEach(field => {
+        const value = fields[field];
+        if (!isNumber(value) || value <= 0) errors.push(`${kind}.${field} must be a number > 0`);
+      });
+      RESOURCE_FIELDS[kind].optional.forEach(field => {
+        const value = fields[field];
+        if (value !== undefined && (!isNumber(value) || value < 0)) {
+          errors.push(`${kind}.${field} must be a number >= 0`);
+        }
+      });
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate the stat fields shared by primary and secondary configs
+   */
+  private static validateStats(def: Record<string, unknown>, prefix: string): string[] {
+    const errors: string[] = [];
+    const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+    if (typeof def.name !== 'string' || def.name.length === 0) errors.push(`${prefix}name must be a non-empty string`);
+    if (!isNumber(def.fireRate) || def.fireRate < 1) errors.push(`${prefix}fireRate must be a number >= 1`);
+    if (!isNumber(def.damage) || def.damage < 0) errors.push(`${prefix}damage must be a number >= 0`);
+    if (!isNumber(def.saturationPerHit) || def.saturationPerHit < 0) {
+      errors.push(`${prefix}saturationPerHit must be a number >= 0`);
+    }
+
+    const optional: Array<keyof SecondaryFireConfig> = ['range', 'projectileSpeed'];
+    optional.forEach(stat => {
+      const value = def[stat];
+      if (value !== undefined && (!isNumber(value) || value <= 0)) {
+        errors.push(`${prefix}${stat} must be a number > 0`);
+      }
+    });
+
+    if (def.statusEffect !== undefined) {
+      errors.push(...StatusEffectFactory.validate(def.statusEffect, `${prefix}statusEffect`));
+    }
+
+    return errors;
+  }
+}
+
+// Built-in behaviours
+WeaponRegistry.registerBehaviour(WeaponType.POLONY_PUMMELER, PolonyPummeler, {
+  requires: ['range'],
+  secondaryRequires: ['range'],
+});
+WeaponRegistry.registerBehaviour(WeaponType.CHIP_SHOTGUN, ChipShotgun, {
+  requires: ['projectileSpeed'],
+  secondaryRequires: ['projectileSpeed'],
+});
+WeaponRegistry.registerBehaviour(WeaponType.CALAMARI_WHIP, CalamariWhip, {
+  requires: ['range'],
+  secondaryRequires: ['range'],
+});
+WeaponRegistry.registerBehaviour(WeaponType.MASALA_FLAMER, MasalaFlamer, {
+  requires: ['range'],
+  secondaryRequires: ['projectileSpeed'],
+});
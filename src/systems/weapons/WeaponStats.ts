@@ -0,0 +1,79 @@
+import { WeaponConfig } from './WeaponBase';
+
+/**
+ * Numeric weapon stats an upgrade can modify
+ */
+export type UpgradableStat =
+  | 'fireRate'
+  | 'damage'
+  | 'saturationPerHit'
+  | 'range'
+  | 'projectileSpeed'
+  | 'pellets'
+  | 'spreadAngle';
+
+export const UPGRADABLE_STATS: UpgradableStat[] = [
+  'fireRate', 'damage', 'saturationPerHit', 'range', 'projectileSpeed', 'pellets', 'spreadAngle',
+];
+
+/**
+ * One stat change - "damage" targets the primary, "secondary.damage" the alternate fire
+ * Adds are summed first, then multipliers applied: (base + add) * multiply
+ */
+export interface WeaponModifier {
+  stat: string;
+  add?: number;
+  multiply?: number;
+}
+
+// Stats that only make sense as whole numbers
+const INTEGER_STATS: UpgradableStat[] = ['fireRate', 'pellets'];
+
+/**
+ * Parse a modifier stat path into its target and stat name (null if invalid)
+ */
+export function parseModifierStat(path: string): { secondary: boolean; stat: UpgradableStat } | null {
+  const secondary = path.startsWith('secondary.');
+  const stat = (secondary ? path.slice('secondary.'.length) : path) as UpgradableStat;
+  return UPGRADABLE_STATS.includes(stat) ? { secondary, stat } : null;
+}
+
+/**
+ * Compute effective stats from a base config and modifiers
+ * The base config is never mutated - a fresh copy is returned
+ * Stats missing from the base config are left missing
+ */
+export function applyWeaponModifiers(base: WeaponConfig, modifiers: WeaponModifier[]): WeaponConfig {
+  const stats: WeaponConfig = { ...base };
+  if (base.secondary) {
+    stats.secondary = { ...base.secondary };
+  }
+
+  // Gather totals per target stat so adds always apply before multipliers
+  const totals = new Map<string, { add: number; multiply: number }>();
+  modifiers.forEach(modifier => {
+    const total = totals.get(modifier.stat) ?? { add: 0, multiply: 1 };
+    total.add += modifier.add ?? 0;
+    total.multiply *= modifier.multiply ?? 1;
+    totals.set(modifier.stat, total);
+  });
+
+  totals.forEach((total, path) => {
+    const parsed = parseModifierStat(path);
+    if (!parsed) return;
+
+    const target = (parsed.secondary ? stats.secondary : stats) as
+      Partial<Record<UpgradableStat, number>> | undefined;
+    const value = target?.[parsed.stat];
+    if (target === undefined || value === undefined) return;
+
+    let result = (value + total.add) * total.multiply;
+    if (INTEGER_STATS.includes(parsed.stat)) {
+      result = Math.max(1, Math.round(result));
+    }
+    target[parsed.stat] = Math.max(0, result);
+  });
+
+  return stats;
+}
+
@@ -0,0 +1,69 @@
+import { WeaponResource, WeaponResourceEvent, WeaponResourceState } from './WeaponResource';
+
+export interface HeatConfig {
+  max: number;              // Heat at which the weapon overheats
+  cost: number;             // Heat per primary shot
+  secondaryCost?: number;   // Heat per secondary shot (defaults to cost)
+  coolRate: number;         // Heat lost per frame once cooling starts
+  coolDelayFrames?: number; // Frames after the last shot before cooling (default 0)
+  recoverAt?: number;       // Overheated weapons unlock at or below this heat (default 0)
+}
+
+/**
+ * Heat - builds up with each shot, overheating locks the weapon until it cools
+ */
+export class HeatResource extends WeaponResource {
+  private config: HeatConfig;
+  private heat: number = 0;
+  private coolDelay: number = 0;
+  private overheated: boolean = false;
+
+  constructor(config: HeatConfig) {
+    super(config.cost, config.secondaryCost ?? config.cost);
+    this.config = config;
+  }
+
+  public canUse(_cost: number): boolean {
+    return !this.overheated;
+  }
+
+  public consume(cost: number): void {
+    this.heat = Math.min(this.config.max, this.heat + cost);
+    this.coolDelay = this.config.coolDelayFrames ?? 0;
+
+    if (this.heat >= this.config.max) {
+      this.overheated = true;
+      this.emit(WeaponResourceEvent.OVERHEATED, this.getState());
+    }
+    this.emitChanged();
+  }
+
+  public update(): void {
+    if (this.coolDelay > 0) {
+      this.coolDelay--;
+      return;
+    }
+    if (this.heat <= 0) return;
+
+    this.heat = Math.max(0, this.heat - this.config.coolRate);
+
+    if (this.overheated && this.heat <= (this.config.recoverAt ?? 0)) {
+      this.overheated = false;
+      this.emit(WeaponResourceEvent.COOLED, this.getState());
+    }
+    this.emitChanged();
+  }
+
+  public isOverheated(): boolean {
+    return this.overheated;
+  }
+
+  public getState(): WeaponResourceState {
+    return {
+      kind: 'heat',
+      value: this.heat,
+      max: this.config.max,
+      blocked: this.overheated,
+    };
+  }
+}
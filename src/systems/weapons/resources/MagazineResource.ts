@@ -0,0 +1,121 @@
+import { WeaponResource, WeaponResourceEvent, WeaponResourceState } from './WeaponResource';
+
+export interface MagazineConfig {
+  size: number;            // Rounds per magazine
+  reloadFrames: number;    // Frames to reload
+  reserve?: number;        // Starting spare rounds (omit for unlimited)
+  maxReserve?: number;     // Cap for ammo pickups (defaults to 4 magazines)
+  cost?: number;           // Rounds per primary shot (default 1)
+  secondaryCost?: number;  // Rounds per secondary shot (default 1)
+}
+
+/**
+ * Magazine - rounds loaded from a reserve, reloads when empty or on demand
+ */
+export class MagazineResource extends WeaponResource {
+  private config: MagazineConfig;
+  private rounds: number;
+  private reserve: number | null;  // null = unlimited
+  private maxReserve: number;
+  private reloadCounter: number = 0;
+
+  constructor(config: MagazineConfig) {
+    super(config.cost ?? 1, config.secondaryCost ?? 1);
+    this.config = config;
+    this.rounds = config.size;
+    this.reserve = config.reserve ?? null;
+    this.maxReserve = config.maxReserve ?? config.size * 4;
+  }
+
+  public canUse(cost: number): boolean {
+    return !this.isReloading() && this.rounds >= cost;
+  }
+
+  public consume(cost: number): void {
+    this.rounds = Math.max(0, this.rounds - cost);
+    this.emitChanged();
+
+    // Auto-reload on the last round
+    if (this.rounds === 0) {
+      this.reload();
+    }
+  }
+
+  public notifyBlocked(): void {
+    // Already reloading - holding the trigger isn't a dry fire
+    if (this.isReloading()) return;
+
+    super.notifyBlocked();
+
+    // Not enough rounds for this shot - reload if we can
+    this.reload();
+  }
+
+  public update(): void {
+    if (this.reloadCounter <= 0) return;
+
+    this.reloadCounter--;
+    if (this.reloadCounter === 0) {
+      const needed = this.config.size - this.rounds;
+      const loaded = this.reserve === null ? needed : Math.min(needed, this.reserve);
+      this.rounds += loaded;
+      if (this.reserve !== null) {
+        this.reserve -= loaded;
+      }
+
+      this.emit(WeaponResourceEvent.RELOAD_COMPLETE, this.getState());
+      this.emitChanged();
+    }
+  }
+
+  public reload(): boolean {
+    if (this.isReloading() || this.rounds >= this.config.size || this.reserve === 0) {
+      return false;
+    }
+
+    this.reloadCounter = this.config.reloadFrames;
+    this.emit(WeaponResourceEvent.RELOAD_START, this.getState());
+    this.emitChanged();
+    return true;
+  }
+
+  public canAddAmmo(): boolean {
+    return this.reserve !== null && this.reserve < this.maxReserve;
+  }
+
+  public addAmmo(amount: number): boolean {
+    // Unlimited reserve or already full - leave the pickup
+    if (this.reserve === null || !this.canAddAmmo()) return false;
+
+    this.reserve = Math.min(this.maxReserve, this.reserve + amount);
+    this.emitChanged();
+
+    // Picked up ammo while dry
+    if (this.rounds === 0) {
+      this.reload();
+    }
+    return true;
+  }
+
+  public isReloading(): boolean {
+    return this.reloadCounter > 0;
+  }
+
+  /**
+   * Reload progress (0-1), 0 when not reloading
+   */
+  public getReloadProgress(): number {
+    if (!this.isReloading()) return 0;
+    return 1 - this.reloadCounter / this.config.reloadFrames;
+  }
+
+  public getState(): WeaponResourceState {
+    return {
+      kind: 'magazine',
+      value: this.rounds,
+      max: this.config.size,
+      reserve: this.reserve ?? undefined,
+      blocked: this.isReloading(),
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { WeaponResource, WeaponResourceEvent, WeaponResourceState } from './WeaponResource';
+
+export interface StaminaConfig {
+  max: number;
+  cost: number;              // Stamina per primary attack
+  secondaryCost?: number;    // Stamina per secondary attack (defaults to cost)
+  regenRate: number;         // Stamina regained per frame
+  regenDelayFrames?: number; // Frames after the last attack before regenerating (default 0)
+}
+
+/**
+ * Stamina - spent per attack, regenerates after a short rest
+ */
+export class StaminaResource extends WeaponResource {
+  private config: StaminaConfig;
+  private stamina: number;
+  private regenDelay: number = 0;
+
+  constructor(config: StaminaConfig) {
+    super(config.cost, config.secondaryCost ?? config.cost);
+    this.config = config;
+    this.stamina = config.max;
+  }
+
+  public canUse(cost: number): boolean {
+    return this.stamina >= cost;
+  }
+
+  public consume(cost: number): void {
+    this.stamina = Math.max(0, this.stamina - cost);
+    this.regenDelay = this.config.regenDelayFrames ?? 0;
+
+    if (this.stamina < this.getCost(false)) {
+      this.emit(WeaponResourceEvent.EXHAUSTED, this.getState());
+    }
+    this.emitChanged();
+  }
+
+  public update(): void {
+    if (this.regenDelay > 0) {
+      this.regenDelay--;
+      return;
+    }
+    if (this.stamina >= this.config.max) return;
+
+    this.stamina = Math.min(this.config.max, this.stamina + this.config.regenRate);
+    this.emitChanged();
+  }
+
+  public getState(): WeaponResourceState {
+    return {
+      kind: 'stamina',
+      value: this.stamina,
+      max: this.config.max,
+      blocked: this.stamina < this.getCost(false),
+    };
+  }
+}
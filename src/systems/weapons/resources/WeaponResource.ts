@@ -0,0 +1,105 @@
+import Phaser from 'phaser';
+
+/**
+ * Events emitted by weapon resources (HUD subscribes to these)
+ * Every event passes the resource's current WeaponResourceState
+ */
+export enum WeaponResourceEvent {
+  CHANGED = 'resource-changed',               // Any value change
+  DRY_FIRE = 'resource-dry-fire',             // Tried to fire while blocked
+  RELOAD_START = 'resource-reload-start',     // Magazine
+  RELOAD_COMPLETE = 'resource-reload-complete',
+  OVERHEATED = 'resource-overheated',         // Heat
+  COOLED = 'resource-cooled',
+  EXHAUSTED = 'resource-exhausted',           // Stamina
+}
+
+export type WeaponResourceKind = 'magazine' | 'heat' | 'stamina';
+
+/**
+ * Snapshot of a resource for display
+ */
+export interface WeaponResourceState {
+  kind: WeaponResourceKind;
+  value: number;             // Rounds loaded / heat / stamina
+  max: number;
+  reserve?: number;          // Magazine only - undefined means unlimited
+  blocked: boolean;          // Reloading, overheated or exhausted
+}
+
+/**
+ * Base class for optional weapon resource models
+ * A weapon asks canUse() before firing and calls consume() after;
+ * update() runs every frame (recharge, reload, cooling)
+ */
+export abstract class WeaponResource extends Phaser.Events.EventEmitter {
+  private primaryCost: number;
+  private secondaryCost: number;
+
+  constructor(primaryCost: number, secondaryCost: number) {
+    super();
+    this.primaryCost = primaryCost;
+    this.secondaryCost = secondaryCost;
+  }
+
+  /**
+   * Cost of one primary or secondary shot
+   */
+  public getCost(secondary: boolean): number {
+    return secondary ? this.secondaryCost : this.primaryCost;
+  }
+
+  /**
+   * Check if a shot costing this much can be fired now
+   */
+  public abstract canUse(cost: number): boolean;
+
+  /**
+   * Spend resource for a shot that was fired
+   */
+  public abstract consume(cost: number): void;
+
+  /**
+   * Per-frame update (reload timer, cooling, regeneration)
+   */
+  public abstract update(): void;
+
+  /**
+   * Current display snapshot
+   */
+  public abstract getState(): WeaponResourceState;
+
+  /**
+   * Called when a shot is refused (click of an empty gun, sputter of an overheated flamer)
+   */
+  public notifyBlocked(): void {
+    this.emit(WeaponResourceEvent.DRY_FIRE, this.getState());
+  }
+
+  /**
+   * Start a reload (only meaningful for magazines)
+   * Returns true if a reload started
+   */
+  public reload(): boolean {
+    return false;
+  }
+
+  /**
+   * Add reserve ammo (only meaningful for magazines)
+   * Returns true if any was added
+   */
+  public addAmmo(_amount: number): boolean {
+    return false;
+  }
+
+  /**
+   * Would addAmmo take any right now
+   */
+  public canAddAmmo(): boolean {
+    return false;
+  }
+
+  protected emitChanged(): void {
+    this.emit(WeaponResourceEvent.CHANGED, this.getState());
+  }
+}
@@ -0,0 +1,42 @@
+import Phaser from 'phaser';
+
+export interface TileRaycastHit {
+  x: number;
+  y: number;
+  distance: number;
+  tile: Phaser.Tilemaps.Tile;
+}
+
+/**
+ * Line-of-sight helpers against tile collision layers
+ */
+export class Raycast {
+  /**
+   * March along a line and return the first colliding tile
+   * Samples every `step` pixels - keep it well below the tile size
+   */
+  public static againstTiles(
+    layer: Phaser.Tilemaps.TilemapLayer,
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    step: number = 4
+  ): TileRaycastHit | null {
+    const distance = Phaser.Math.Distance.Between(x1, y1, x2, y2);
+    const steps = Math.max(1, Math.ceil(distance / step));
+
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      const x = x1 + (x2 - x1) * t;
+      const y = y1 + (y2 - y1) * t;
+
+      const tile = layer.getTileAtWorldXY(x, y);
+      if (tile && tile.collides) {
+        return { x, y, distance: distance * t, tile };
+      }
+    }
+
+    return null;
+  }
+}